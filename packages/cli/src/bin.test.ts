@@ -1,4 +1,7 @@
 import { EventEmitter } from "node:events";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import type { ScanOperation, ScanResult } from "@a11y-page-checker/core";
 import { describe, expect, it, vi } from "vitest";
 
@@ -21,20 +24,27 @@ function createOutput() {
 function createOperation(result: ScanResult): ScanOperation {
   const emitter = new EventEmitter();
   const promise = Promise.resolve().then(() => {
-    const firstUrl = result.urlResults[0]?.url ?? "https://example.com";
+    const [first] = result.urlResults;
+    const location = {
+      browser: first?.browser,
+      emulation: first?.emulation,
+      url: first?.url ?? "https://example.com",
+      viewport: first?.viewport,
+    };
 
-    emitter.emit("progress", { step: "fetch", url: firstUrl });
-    emitter.emit("progress", { step: "scan", url: firstUrl });
-    emitter.emit("page:done", { findingsCount: result.urlResults[0]?.findings.length ?? 0, url: firstUrl });
+    emitter.emit("progress", { ...location, step: "fetch" });
+    emitter.emit("progress", { ...location, step: "scan" });
+    emitter.emit("page:done", { ...location, findingsCount: first?.findings.length ?? 0 });
     emitter.emit("done", { summary: result.summary });
 
     return result;
   });
 
   return Object.assign(promise, {
+    cancel: vi.fn(),
     on: emitter.on.bind(emitter),
     once: emitter.once.bind(emitter),
-  }) as ScanOperation;
+  }) as unknown as ScanOperation;
 }
 
 describe("CLI scan command", () => {
@@ -53,6 +63,9 @@ describe("CLI scan command", () => {
     expect(createScanPlan("https://example.com/sitemap.xml")).toEqual({
       source: { type: "sitemap", url: "https://example.com/sitemap.xml" },
     });
+    expect(createScanPlan("https://example.com/sitemap-pages.xml.gz")).toEqual({
+      source: { type: "sitemap", url: "https://example.com/sitemap-pages.xml.gz" },
+    });
     expect(createScanPlan("https://example.com/api.json", "crawl")).toEqual({
       source: { seedUrl: "https://example.com/api.json", type: "crawl" },
     });
@@ -109,6 +122,11 @@ describe("CLI scan command", () => {
     });
 
     expect(formatResult(result, "table")).toContain("Summary: 1 pages scanned, 0 findings, 12ms");
+    const rule = { help: "Add alternate text", id: "image-alt", impact: "critical" as const, nodeCount: 3 };
+    const summary = { ...result.summary, rules: [{ ...rule, pagesAffected: 2 }] };
+    expect(formatResult({ ...result, summary }, "table")).toContain(
+      "Rules:\n- image-alt (critical): 3 elements on 2 pages, Add alternate text",
+    );
     await program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com"]);
     expect(stdout.value()).toContain("| URL");
     await expect(
@@ -122,4 +140,391 @@ describe("CLI scan command", () => {
       ]),
     ).rejects.toThrow("Unsupported output format");
   });
+
+  it("requests needs-review items and lists them after the table", async () => {
+    const result: ScanResult = {
+      summary: { duration: 8, pagesScanned: 1, totalFindings: 0 },
+      urlResults: [
+        {
+          findings: [],
+          incomplete: [
+            {
+              description: "Ensures the contrast between foreground and background colors meets WCAG 2 AA",
+              help: "Elements must meet minimum color contrast ratio thresholds",
+              helpUrl: "https://dequeuniversity.com/rules/axe/color-contrast",
+              id: "color-contrast",
+              impact: "serious",
+              nodes: [{ html: "<h1>Sale</h1>", target: ["h1"] }],
+              tags: ["wcag2aa"],
+            },
+          ],
+          url: "https://example.com/",
+        },
+      ],
+    };
+    const stdout = createOutput();
+    const runScan = vi.fn(() => createOperation(result));
+    const program = createProgram({ runScan: runScan as never, stderr: createOutput().stream, stdout: stdout.stream });
+
+    await program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com", "--needs-review"]);
+
+    expect(runScan).toHaveBeenCalledWith({
+      options: { outcomes: { incomplete: true } },
+      source: { seedUrl: "https://example.com/", type: "crawl" },
+    });
+    expect(stdout.value()).toContain("| Needs review |");
+    expect(stdout.value()).toContain(
+      "- https://example.com/: color-contrast (1 elements) Elements must meet minimum color contrast ratio thresholds",
+    );
+  });
+
+  it("scans once per requested viewport and splits the table by viewport", async () => {
+    const result: ScanResult = {
+      summary: {
+        duration: 8,
+        pagesScanned: 2,
+        totalFindings: 1,
+        viewports: {
+          desktop: { pagesScanned: 1, totalFindings: 0 },
+          "iPhone 13": { pagesScanned: 1, totalFindings: 1 },
+        },
+      },
+      urlResults: [
+        { findings: [], url: "https://example.com/", viewport: "desktop" },
+        { findings: [], url: "https://example.com/", viewport: "iPhone 13" },
+      ],
+    };
+    const stdout = createOutput();
+    const runScan = vi.fn(() => createOperation(result));
+    const program = createProgram({ runScan: runScan as never, stderr: createOutput().stream, stdout: stdout.stream });
+
+    await program.parseAsync([
+      "node",
+      "a11y-page-checker",
+      "scan",
+      "https://example.com",
+      "--viewport",
+      "desktop=1280x800",
+      "iPhone 13",
+    ]);
+
+    expect(runScan).toHaveBeenCalledWith({
+      options: { viewports: [{ height: 800, name: "desktop", width: 1280 }, "iPhone 13"] },
+      source: { seedUrl: "https://example.com/", type: "crawl" },
+    });
+    expect(stdout.value()).toContain("| URL                  | Viewport  | Status | Findings |");
+    expect(stdout.value()).toContain("| https://example.com/ | iPhone 13 | passed | 0        |");
+    expect(stdout.value()).toContain("- iPhone 13: 1 pages scanned, 1 findings");
+  });
+
+  it("passes politeness settings for production sites", async () => {
+    const result: ScanResult = { summary: { duration: 1, pagesScanned: 0, totalFindings: 0 }, urlResults: [] };
+    const runScan = vi.fn(() => createOperation(result));
+    const program = createProgram({
+      runScan: runScan as never,
+      stderr: createOutput().stream,
+      stdout: createOutput().stream,
+    });
+
+    await program.parseAsync([
+      "node",
+      "a11y-page-checker",
+      "scan",
+      "https://example.com",
+      "--user-agent",
+      "A11yPageChecker/1.0",
+      "--respect-robots-txt",
+      "--host-delay",
+      "1000",
+    ]);
+
+    expect(runScan).toHaveBeenCalledWith({
+      options: { politeness: { hostDelay: 1000, respectRobotsTxt: true, userAgent: "A11yPageChecker/1.0" } },
+      source: { seedUrl: "https://example.com/", type: "crawl" },
+    });
+    await expect(
+      createProgram({ runScan: runScan as never }).parseAsync([
+        "node",
+        "a11y-page-checker",
+        "scan",
+        "https://example.com",
+        "--host-delay",
+        "soon",
+      ]),
+    ).rejects.toThrow("Invalid host delay: soon");
+  });
+
+  it("saves screenshots to the requested directory", async () => {
+    const result: ScanResult = { summary: { duration: 1, pagesScanned: 0, totalFindings: 0 }, urlResults: [] };
+    const runScan = vi.fn(() => createOperation(result));
+    const program = createProgram({
+      runScan: runScan as never,
+      stderr: createOutput().stream,
+      stdout: createOutput().stream,
+    });
+
+    await program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com", "--screenshots", "shots"]);
+
+    expect(runScan).toHaveBeenCalledWith({
+      options: { screenshots: { outputDir: "shots" } },
+      source: { seedUrl: "https://example.com/", type: "crawl" },
+    });
+  });
+
+  it("registers custom axe rules from plugin modules", async () => {
+    const result: ScanResult = { summary: { duration: 1, pagesScanned: 0, totalFindings: 0 }, urlResults: [] };
+    const runScan = vi.fn(() => createOperation(result));
+    const program = createProgram({
+      runScan: runScan as never,
+      stderr: createOutput().stream,
+      stdout: createOutput().stream,
+    });
+
+    await program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com", "--axe-plugin", "rules.mjs"]);
+
+    expect(runScan).toHaveBeenCalledWith({
+      options: { axe: { plugins: ["rules.mjs"] } },
+      source: { seedUrl: "https://example.com/", type: "crawl" },
+    });
+  });
+
+  it("applies a baseline file, reports known findings and writes an updated baseline", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-cli-baseline-"));
+    const updatePath = path.join(directory, "baseline.json");
+    const result: ScanResult = {
+      summary: { duration: 4, knownFindings: 1, newFindings: 0, pagesScanned: 1, totalFindings: 1 },
+      urlResults: [
+        {
+          findings: [
+            {
+              description: "",
+              help: "",
+              helpUrl: "",
+              id: "label",
+              impact: "critical",
+              nodes: [
+                {
+                  fingerprint: "0123456789abcdef",
+                  html: "<input>",
+                  suppressed: { source: "baseline" },
+                  target: ["input"],
+                },
+              ],
+              suppressed: true,
+              tags: [],
+            },
+          ],
+          url: "https://example.com/",
+        },
+      ],
+    };
+    const runScan = vi.fn(() => createOperation(result));
+    const stdout = createOutput();
+    const program = createProgram({ runScan: runScan as never, stderr: createOutput().stream, stdout: stdout.stream });
+
+    try {
+      await program.parseAsync([
+        "node",
+        "a11y-page-checker",
+        "scan",
+        "https://example.com",
+        "--baseline",
+        "baseline.json",
+        "--update-baseline",
+        updatePath,
+      ]);
+
+      expect(runScan).toHaveBeenCalledWith({
+        baseline: "baseline.json",
+        source: { seedUrl: "https://example.com/", type: "crawl" },
+      });
+      expect(stdout.value()).toContain("Summary: 1 pages scanned, 1 findings (0 new, 1 known), 4ms");
+      expect(JSON.parse(await readFile(updatePath, "utf8"))).toMatchObject({
+        fingerprints: ["0123456789abcdef"],
+        version: 1,
+      });
+    } finally {
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  it("compares two scan result files", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-cli-diff-"));
+    const finding = {
+      description: "",
+      help: "Form elements must have labels",
+      helpUrl: "",
+      id: "label",
+      impact: "critical" as const,
+      nodes: [{ html: "<input>", target: ["#email"] }],
+      tags: [],
+    };
+    const before: ScanResult = {
+      summary: { duration: 1, pagesScanned: 1, totalFindings: 1 },
+      urlResults: [{ findings: [finding], url: "https://example.com/" }],
+    };
+    const after: ScanResult = {
+      summary: { duration: 1, pagesScanned: 2, totalFindings: 0 },
+      urlResults: [
+        { findings: [], url: "https://example.com/" },
+        { error: "Navigation failed", findings: [], url: "https://example.com/new" },
+      ],
+    };
+    const stdout = createOutput();
+
+    try {
+      await writeFile(path.join(directory, "before.json"), JSON.stringify(before));
+      await writeFile(path.join(directory, "after.json"), JSON.stringify(after));
+      await createProgram({ stdout: stdout.stream }).parseAsync([
+        "node",
+        "a11y-page-checker",
+        "diff",
+        path.join(directory, "before.json"),
+        path.join(directory, "after.json"),
+      ]);
+
+      expect(stdout.value()).toContain("Diff: 0 new, 1 fixed, 0 unchanged findings");
+      expect(stdout.value()).toContain("Pages: 1 added, 0 removed, 0 newly erroring");
+      expect(stdout.value()).toContain("- https://example.com/: label #email Form elements must have labels");
+      expect(stdout.value()).toContain("- https://example.com/new: Navigation failed");
+    } finally {
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  it("records passes and prints a conformance report for a scan result file", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-cli-conformance-"));
+    const result: ScanResult = {
+      summary: { duration: 1, pagesScanned: 1, totalFindings: 0 },
+      urlResults: [
+        {
+          findings: [],
+          passes: [
+            {
+              id: "image-alt",
+              nodeCount: 1,
+              wcag: [{ id: "1.1.1", level: "A", principle: "Perceivable", title: "Non-text Content", version: "2.0" }],
+            },
+          ],
+          url: "https://example.com/",
+        },
+      ],
+    };
+    const runScan = vi.fn(() => createOperation(result));
+    const stdout = createOutput();
+    const program = createProgram({ runScan: runScan as never, stderr: createOutput().stream, stdout: stdout.stream });
+
+    try {
+      await program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com", "--passes"]);
+      await writeFile(path.join(directory, "result.json"), JSON.stringify(result));
+      await createProgram({ stdout: stdout.stream }).parseAsync([
+        "node",
+        "a11y-page-checker",
+        "conformance",
+        path.join(directory, "result.json"),
+        "--title",
+        "Storefront ACR",
+        "--wcag-version",
+        "2.1",
+      ]);
+
+      expect(runScan).toHaveBeenCalledWith({
+        options: { outcomes: { passes: true } },
+        source: { seedUrl: "https://example.com/", type: "crawl" },
+      });
+      expect(stdout.value()).toContain("# Storefront ACR");
+      expect(stdout.value()).toContain("WCAG 2.1 Level A and AA");
+      expect(stdout.value()).toContain("| 1.1.1 Non-text Content (Level A) | Supports | Passed image-alt. |");
+      await expect(
+        createProgram().parseAsync(["node", "a11y-page-checker", "conformance", "result.json", "--wcag-version", "3"]),
+      ).rejects.toThrow("Unsupported WCAG version: 3");
+    } finally {
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  it("labels progress and rows with the emulation variant", async () => {
+    const result: ScanResult = {
+      summary: {
+        duration: 3,
+        emulations: { dark: { pagesScanned: 1, totalFindings: 0 } },
+        pagesScanned: 1,
+        totalFindings: 0,
+      },
+      urlResults: [{ emulation: "dark", findings: [], url: "https://example.com/" }],
+    };
+    const stderr = createOutput();
+    const stdout = createOutput();
+    const program = createProgram({
+      runScan: vi.fn(() => createOperation(result)) as never,
+      stderr: stderr.stream,
+      stdout: stdout.stream,
+    });
+
+    await program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com"]);
+
+    expect(stderr.value()).toContain("[done] https://example.com/ (dark): 0 findings");
+    expect(stdout.value()).toContain("| https://example.com/ | dark      | passed | 0        |");
+    expect(stdout.value()).toContain("Emulations:\n- dark: 1 pages scanned, 0 findings");
+  });
+
+  it("passes requested browser engines and labels progress and rows with the engine", async () => {
+    const result: ScanResult = {
+      summary: {
+        browsers: { firefox: { pagesScanned: 1, totalFindings: 0 }, webkit: { pagesScanned: 1, totalFindings: 0 } },
+        duration: 6,
+        pagesScanned: 2,
+        totalFindings: 0,
+      },
+      urlResults: [
+        { browser: "firefox", findings: [], url: "https://example.com/" },
+        { browser: "webkit", findings: [], url: "https://example.com/" },
+      ],
+    };
+    const stderr = createOutput();
+    const stdout = createOutput();
+    const runScan = vi.fn(() => createOperation(result));
+    const program = createProgram({ runScan: runScan as never, stderr: stderr.stream, stdout: stdout.stream });
+
+    await program.parseAsync([
+      "node",
+      "a11y-page-checker",
+      "scan",
+      "https://example.com",
+      "--browser",
+      "firefox",
+      "webkit",
+    ]);
+
+    expect(runScan).toHaveBeenCalledWith({
+      options: { browser: ["firefox", "webkit"] },
+      source: { seedUrl: "https://example.com/", type: "crawl" },
+    });
+    expect(stderr.value()).toContain("[done] https://example.com/ (firefox): 0 findings");
+    expect(stdout.value()).toContain("| https://example.com/ | webkit  | passed | 0        |");
+    expect(stdout.value()).toContain("Browsers:\n- firefox: 1 pages scanned, 0 findings");
+  });
+
+  it("cancels the scan on Ctrl+C and prints the partial result", async () => {
+    const result: ScanResult = {
+      cancelled: true,
+      summary: { duration: 5, pagesScanned: 1, totalFindings: 0 },
+      urlResults: [{ findings: [], url: "https://example.com/" }],
+    };
+    const operation = createOperation(result);
+    const stdout = createOutput();
+    const program = createProgram({
+      runScan: vi.fn(() => operation) as never,
+      stderr: createOutput().stream,
+      stdout: stdout.stream,
+    });
+
+    const parsing = program.parseAsync(["node", "a11y-page-checker", "scan", "https://example.com"]);
+    process.emit("SIGINT");
+    await parsing;
+
+    expect(operation.cancel).toHaveBeenCalledOnce();
+    expect(process.listenerCount("SIGINT")).toBe(0);
+    expect(stdout.value()).toContain("Summary: 1 pages scanned, 0 findings, 5ms (cancelled)");
+  });
 });
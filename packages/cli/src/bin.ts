@@ -1,15 +1,47 @@
 #!/usr/bin/env node
-import { scan, type ScanOperation, type ScanPlan, type ScanResult } from "@a11y-page-checker/core";
+import {
+  createBaseline,
+  createConformanceReport,
+  diffScanResults,
+  readScanResult,
+  renderConformanceMarkdown,
+  scan,
+  type BrowserEngine,
+  type ScanDiff,
+  type ScanDiffFinding,
+  type ScanOperation,
+  type ScanPlan,
+  type ScanResult,
+  type ViewportOption,
+  type WcagVersion,
+} from "@a11y-page-checker/core";
 import chalk from "chalk";
 import { Command } from "commander";
+import { writeFile } from "node:fs/promises";
 import { pathToFileURL } from "node:url";
 
 type OutputFormat = "json" | "table";
 type SourceType = "crawl" | "sitemap";
 
 interface ScanCommandOptions {
+  axePlugin?: string[];
+  baseline?: string;
+  browser?: BrowserEngine[];
   format: OutputFormat;
+  hostDelay?: string;
+  needsReview?: boolean;
+  passes?: boolean;
+  respectRobotsTxt?: boolean;
+  screenshots?: string;
   source?: SourceType;
+  updateBaseline?: string;
+  userAgent?: string;
+  viewport?: string[];
+}
+
+interface ConformanceCommandOptions {
+  title?: string;
+  wcagVersion: string;
 }
 
 interface UiServerHandle {
@@ -25,7 +57,7 @@ interface CliDependencies {
   stdout?: Pick<NodeJS.WriteStream, "write">;
 }
 
-const SITEMAP_EXTENSIONS = [".json", ".xml"];
+const SITEMAP_EXTENSIONS = [".json", ".xml", ".xml.gz"];
 
 export function createScanPlan(input: string, sourceOverride?: string): ScanPlan {
   const url = parseUrl(input);
@@ -63,14 +95,87 @@ export function createProgram(dependencies: CliDependencies = {}): Command {
     .description("Scan a URL or sitemap")
     .option("--source <source>", "Override automatic source detection: sitemap or crawl")
     .option("--format <format>", "Final output format: table or json", "table")
+    .option("--needs-review", "Also report items axe could not decide and that need manual review")
+    .option("--passes", "Also record rules that passed, for conformance reports")
+    .option("--browser <engine...>", "Scan each page per browser engine: chromium, firefox or webkit")
+    .option("--viewport <viewport...>", "Scan each page per viewport: a Playwright device name or name=WIDTHxHEIGHT")
+    .option("--user-agent <user-agent>", "User agent sent while crawling and scanning")
+    .option("--respect-robots-txt", "Skip URLs robots.txt disallows and wait its Crawl-delay between requests")
+    .option("--host-delay <ms>", "Minimum milliseconds between two page loads on the same host")
+    .option("--screenshots <dir>", "Save a full-page screenshot and a highlighted clip of each failing element")
+    .option("--axe-plugin <module...>", "Register custom axe rules and checks from local plugin modules")
+    .option("--baseline <file>", "Mark findings recorded in a baseline file as known")
+    .option("--update-baseline <file>", "Write the findings of this scan to a baseline file")
     .action(async (input: string, options: ScanCommandOptions) => {
       const format = parseOutputFormat(options.format);
-      const operation = runScan(createScanPlan(input, options.source));
+      const plan = {
+        ...createScanPlan(input, options.source),
+        ...(options.baseline ? { baseline: options.baseline } : {}),
+      };
+      const politeness = {
+        ...(options.userAgent ? { userAgent: options.userAgent } : {}),
+        ...(options.respectRobotsTxt ? { respectRobotsTxt: true } : {}),
+        ...(options.hostDelay === undefined ? {} : { hostDelay: parseHostDelay(options.hostDelay) }),
+      };
+      const outcomes = {
+        ...(options.needsReview ? { incomplete: true } : {}),
+        ...(options.passes ? { passes: true } : {}),
+      };
+      const scanOptions = {
+        ...(Object.keys(outcomes).length > 0 ? { outcomes } : {}),
+        ...(options.axePlugin ? { axe: { plugins: options.axePlugin } } : {}),
+        ...(options.browser ? { browser: options.browser } : {}),
+        ...(options.viewport ? { viewports: options.viewport.map(parseViewport) } : {}),
+        ...(Object.keys(politeness).length > 0 ? { politeness } : {}),
+        ...(options.screenshots ? { screenshots: { outputDir: options.screenshots } } : {}),
+      };
+      const operation = runScan(
+        Object.keys(scanOptions).length > 0 ? { ...plan, options: { ...plan.options, ...scanOptions } } : plan,
+      );
+
+      const cancel = () => operation.cancel();
 
       subscribeToScan(operation, stderr);
+      process.once("SIGINT", cancel);
+
+      try {
+        const result = await operation;
+
+        if (options.updateBaseline) {
+          await writeFile(options.updateBaseline, `${JSON.stringify(createBaseline(result), null, 2)}\n`);
+        }
+
+        stdout.write(formatResult(result, format));
+      } finally {
+        process.off("SIGINT", cancel);
+      }
+    });
+
+  program
+    .command("diff <before> <after>")
+    .description("Compare two JSON scan results")
+    .option("--format <format>", "Output format: table or json", "table")
+    .action(async (beforePath: string, afterPath: string, options: { format: OutputFormat }) => {
+      const format = parseOutputFormat(options.format);
+      const [before, after] = await Promise.all([readScanResult(beforePath), readScanResult(afterPath)]);
+
+      stdout.write(formatDiff(diffScanResults(before, after), format));
+    });
+
+  program
+    .command("conformance <result>")
+    .description("Print a WCAG conformance report for a JSON scan result as Markdown")
+    .option("--title <title>", "Report title")
+    .option("--wcag-version <version>", "WCAG version the report covers: 2.0, 2.1 or 2.2", "2.2")
+    .action(async (resultPath: string, options: ConformanceCommandOptions) => {
+      const wcagVersion = parseWcagVersion(options.wcagVersion);
+      const result = await readScanResult(resultPath);
+      const report = createConformanceReport(result, {
+        wcagVersion,
+        ...(options.title ? { title: options.title } : {}),
+      });
 
-      const result = await operation;
-      stdout.write(formatResult(result, format));
+      stdout.write(`${renderConformanceMarkdown(report)}\n`);
     });
 
   return program;
@@ -85,35 +190,116 @@ export function formatResult(result: ScanResult, format: OutputFormat): string {
     return `${JSON.stringify(result, null, 2)}\n`;
   }
 
+  const showNeedsReview = result.urlResults.some((urlResult) => urlResult.incomplete !== undefined);
+  const showBrowser = result.summary.browsers !== undefined;
+  const showViewport = result.summary.viewports !== undefined;
+  const showEmulation = result.summary.emulations !== undefined;
   const rows = result.urlResults.map((urlResult) => [
     urlResult.url,
+    ...(showBrowser ? [urlResult.browser ?? ""] : []),
+    ...(showViewport ? [urlResult.viewport ?? ""] : []),
+    ...(showEmulation ? [urlResult.emulation ?? ""] : []),
     urlResult.error ? "error" : urlResult.findings.length > 0 ? "findings" : "passed",
     String(urlResult.findings.length),
+    ...(showNeedsReview ? [String(urlResult.incomplete?.length ?? 0)] : []),
   ]);
-  const headers = ["URL", "Status", "Findings"];
+  const headers = [
+    "URL",
+    ...(showBrowser ? ["Browser"] : []),
+    ...(showViewport ? ["Viewport"] : []),
+    ...(showEmulation ? ["Emulation"] : []),
+    "Status",
+    "Findings",
+    ...(showNeedsReview ? ["Needs review"] : []),
+  ];
   const widths = headers.map((header, index) =>
     Math.max(header.length, ...rows.map((row) => row[index].length)),
   );
   const separator = `+-${widths.map((width) => "-".repeat(width)).join("-+-")}-+`;
   const renderRow = (row: string[]) => `| ${row.map((cell, index) => cell.padEnd(widths[index])).join(" | ")} |`;
 
+  const status = result.cancelled ? " (cancelled)" : "";
+  const { knownFindings, newFindings } = result.summary;
+  const known = newFindings === undefined ? "" : ` (${newFindings} new, ${knownFindings ?? 0} known)`;
+
   return [
-    `Summary: ${result.summary.pagesScanned} pages scanned, ${result.summary.totalFindings} findings, ${result.summary.duration}ms`,
+    `Summary: ${result.summary.pagesScanned} pages scanned, ${result.summary.totalFindings} findings${known}, ${result.summary.duration}ms${status}`,
     separator,
     renderRow(headers),
     separator,
     ...rows.map(renderRow),
     separator,
+    ...formatTotals("Browsers", result.summary.browsers),
+    ...formatTotals("Viewports", result.summary.viewports),
+    ...formatTotals("Emulations", result.summary.emulations),
+    ...formatRules(result.summary.rules),
+    ...formatNeedsReview(result),
+    "",
+  ].join("\n");
+}
+
+export function formatDiff(diff: ScanDiff, format: OutputFormat): string {
+  if (format === "json") {
+    return `${JSON.stringify(diff, null, 2)}\n`;
+  }
+
+  const { summary } = diff;
+  const formatPages = (title: string, pages: ScanDiff["pagesAdded"]) =>
+    pages.length > 0
+      ? ["", `${title}:`, ...pages.map((page) => `- ${formatLocation(page)}${page.error ? `: ${page.error}` : ""}`)]
+      : [];
+
+  return [
+    `Diff: ${summary.newFindings} new, ${summary.fixedFindings} fixed, ${summary.unchangedFindings} unchanged findings`,
+    `Pages: ${summary.pagesAdded} added, ${summary.pagesRemoved} removed, ${summary.pagesNewlyErroring} newly erroring`,
+    ...formatDiffFindings("New findings", diff.newFindings),
+    ...formatDiffFindings("Fixed findings", diff.fixedFindings),
+    ...formatPages("Pages added", diff.pagesAdded),
+    ...formatPages("Pages removed", diff.pagesRemoved),
+    ...formatPages("Pages newly erroring", diff.pagesNewlyErroring),
     "",
   ].join("\n");
 }
 
+function formatDiffFindings(title: string, findings: ScanDiffFinding[]): string[] {
+  const lines = findings.map(
+    (finding) => `- ${formatLocation(finding)}: ${finding.ruleId} ${finding.node.target.join(" >> ")} ${finding.help}`,
+  );
+
+  return lines.length > 0 ? ["", `${title}:`, ...lines] : [];
+}
+
+function formatTotals(title: string, totals: ScanResult["summary"]["viewports"]): string[] {
+  const lines = Object.entries(totals ?? {}).map(
+    ([name, { pagesScanned, totalFindings }]) => `- ${name}: ${pagesScanned} pages scanned, ${totalFindings} findings`,
+  );
+
+  return lines.length > 0 ? ["", `${title}:`, ...lines] : [];
+}
+
+function formatRules(rules: ScanResult["summary"]["rules"] = []): string[] {
+  const lines = rules.map(
+    ({ help, id, impact, nodeCount, pagesAffected }) =>
+      `- ${id} (${impact}): ${nodeCount} elements on ${pagesAffected} pages, ${help}`,
+  );
+
+  return lines.length > 0 ? ["", "Rules:", ...lines] : [];
+}
+
+function formatNeedsReview(result: ScanResult): string[] {
+  const lines = result.urlResults.flatMap(({ incomplete = [], url }) =>
+    incomplete.map((item) => `- ${url}: ${item.id} (${item.nodes.length} elements) ${item.help}`),
+  );
+
+  return lines.length > 0 ? ["", "Needs review:", ...lines] : [];
+}
+
 function subscribeToScan(operation: ScanOperation, stderr: Pick<NodeJS.WriteStream, "write">): void {
-  operation.on("progress", ({ step, url }) => {
-    stderr.write(chalk.cyan(`[${step}] ${url}\n`));
+  operation.on("progress", ({ step, ...location }) => {
+    stderr.write(chalk.cyan(`[${step}] ${formatLocation(location)}\n`));
   });
-  operation.on("page:done", ({ findingsCount, url }) => {
-    stderr.write(chalk.green(`[done] ${url}: ${findingsCount} findings\n`));
+  operation.on("page:done", ({ findingsCount, ...location }) => {
+    stderr.write(chalk.green(`[done] ${formatLocation(location)}: ${findingsCount} findings\n`));
   });
   operation.on("error", ({ error, url }) => {
     stderr.write(chalk.red(`[error] ${url ?? "scan"}: ${error.message}\n`));
@@ -121,6 +307,33 @@ function subscribeToScan(operation: ScanOperation, stderr: Pick<NodeJS.WriteStre
   operation.on("done", ({ summary }) => {
     stderr.write(chalk.green(`[complete] ${summary.pagesScanned} pages scanned\n`));
   });
+  operation.on("cancelled", ({ summary }) => {
+    stderr.write(chalk.yellow(`[cancelled] ${summary.pagesScanned} pages scanned before cancellation\n`));
+  });
+}
+
+function formatLocation({
+  browser,
+  emulation,
+  url,
+  viewport,
+}: {
+  browser?: string;
+  emulation?: string;
+  url: string;
+  viewport?: string;
+}): string {
+  const variant = [browser, viewport, emulation].filter((name) => name !== undefined);
+
+  return variant.length > 0 ? `${url} (${variant.join(", ")})` : url;
+}
+
+function parseViewport(input: string): ViewportOption {
+  const match = input.match(/^(.+)=(\d+)x(\d+)$/);
+
+  return match
+    ? { height: Number.parseInt(match[3], 10), name: match[1], width: Number.parseInt(match[2], 10) }
+    : input;
 }
 
 function parseUrl(input: string): URL {
@@ -153,6 +366,16 @@ function parseSourceType(source?: string): SourceType | undefined {
   throw new Error(`Unsupported source type: ${source}`);
 }
 
+function parseHostDelay(hostDelay: string): number {
+  const parsedDelay = Number(hostDelay);
+
+  if (!Number.isInteger(parsedDelay) || parsedDelay < 0) {
+    throw new Error(`Invalid host delay: ${hostDelay}`);
+  }
+
+  return parsedDelay;
+}
+
 function parseOutputFormat(format: string): OutputFormat {
   if (format === "json" || format === "table") {
     return format;
@@ -161,6 +384,14 @@ function parseOutputFormat(format: string): OutputFormat {
   throw new Error(`Unsupported output format: ${format}`);
 }
 
+function parseWcagVersion(version: string): WcagVersion {
+  if (version === "2.0" || version === "2.1" || version === "2.2") {
+    return version;
+  }
+
+  throw new Error(`Unsupported WCAG version: ${version}`);
+}
+
 if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   runCli().catch((error: unknown) => {
     process.stderr.write(chalk.red(`${error instanceof Error ? error.message : String(error)}\n`));
@@ -0,0 +1,96 @@
+import type { Page } from "@playwright/test";
+
+import type { DOMAction } from "@/types";
+
+const DEFAULT_ACTION_TIMEOUT = 10_000;
+
+/**
+ * Replays `actions` in order on `page`. A failing action is rethrown with its index,
+ * a short description and `url`, keeping the Playwright error as `cause`.
+ */
+export async function runActions(
+  page: Page,
+  actions: DOMAction[],
+  url: string,
+  defaultTimeout = DEFAULT_ACTION_TIMEOUT,
+): Promise<void> {
+  for (const [index, action] of actions.entries()) {
+    const timeout = action.timeout ?? defaultTimeout;
+
+    try {
+      await runAction(action, page, timeout);
+    } catch (error) {
+      throw new Error(
+        `Action ${index + 1} (${describeAction(action)}) failed on ${url}: ${await describeFailure(error, action, page, timeout)}`,
+        { cause: error },
+      );
+    }
+  }
+}
+
+async function runAction(action: DOMAction, page: Page, timeout: number): Promise<void> {
+  switch (action.type) {
+    case "click":
+      await page.locator(action.selector).first().click({ timeout });
+      return;
+    case "fill":
+      await page.locator(action.selector).first().fill(action.value, { timeout });
+      return;
+    case "wait":
+      if (typeof action.selectorOrMs === "number") {
+        await page.waitForTimeout(action.selectorOrMs);
+        return;
+      }
+
+      await page.locator(action.selectorOrMs).first().waitFor({ state: "visible", timeout });
+      return;
+  }
+}
+
+function describeAction(action: DOMAction): string {
+  switch (action.type) {
+    case "click":
+      return `click "${action.selector}"`;
+    case "fill":
+      return `fill "${action.selector}"`;
+    case "wait":
+      return typeof action.selectorOrMs === "number"
+        ? `wait ${action.selectorOrMs}ms`
+        : `wait for "${action.selectorOrMs}"`;
+  }
+}
+
+/** Tells a selector that never matched apart from an element that matched but never became actionable. */
+async function describeFailure(error: unknown, action: DOMAction, page: Page, timeout: number): Promise<string> {
+  if (!(error instanceof Error) || error.name !== "TimeoutError") {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const selector = action.type === "wait" ? action.selectorOrMs : action.selector;
+  const matches = typeof selector === "string" ? await countMatches(page, selector) : undefined;
+
+  if (matches === 0) {
+    return `selector did not appear within ${timeout}ms`;
+  }
+
+  if (matches === undefined) {
+    return `timed out after ${timeout}ms`;
+  }
+
+  switch (action.type) {
+    case "click":
+      return `element could not be clicked within ${timeout}ms; it may be hidden, disabled or covered`;
+    case "fill":
+      return `element could not be filled within ${timeout}ms; it may be hidden, disabled or read-only`;
+    case "wait":
+      return `element stayed hidden for ${timeout}ms`;
+  }
+}
+
+async function countMatches(page: Page, selector: string): Promise<number | undefined> {
+  try {
+    return await page.locator(selector).count();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,109 @@
+import type { Browser } from "@playwright/test";
+import { describe, expect, it, vi } from "vitest";
+
+import { AuthSession } from "./index";
+
+function createBrowser() {
+  const calls: string[] = [];
+  const page = {
+    close: vi.fn().mockResolvedValue(undefined),
+    goto: vi.fn(async (url: string) => calls.push(`goto:${url}`)),
+    locator: vi.fn((selector: string) => ({
+      count: vi.fn(async () => 1),
+      first: () => ({
+        click: vi.fn(async () => calls.push(`click:${selector}`)),
+        fill: vi.fn(async (value: string) => calls.push(`fill:${selector}:${value}`)),
+        waitFor: vi.fn(async () => calls.push(`waitFor:${selector}`)),
+      }),
+    })),
+  };
+  const context = {
+    addCookies: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    newPage: vi.fn().mockResolvedValue(page),
+    storageState: vi.fn().mockResolvedValue({ cookies: [{ name: "session" }], origins: [] }),
+  };
+  const browser = { newContext: vi.fn().mockResolvedValue(context) };
+
+  return { browser, calls, context, page };
+}
+
+describe("AuthSession", () => {
+  it("passes a storage state file and headers through without opening a context", async () => {
+    const { browser } = createBrowser();
+    const session = new AuthSession(
+      { headers: { Authorization: "Bearer ${env:API_TOKEN}" }, storageState: "auth/state.json" },
+      { API_TOKEN: "secret-token" },
+    );
+
+    await expect(session.contextOptions(browser as unknown as Browser)).resolves.toEqual({
+      extraHTTPHeaders: { Authorization: "Bearer secret-token" },
+      storageState: "auth/state.json",
+    });
+    expect(browser.newContext).not.toHaveBeenCalled();
+  });
+
+  it("runs the login flow once with secrets from the environment and reuses its storage state", async () => {
+    const { browser, calls, context, page } = createBrowser();
+    const session = new AuthSession(
+      {
+        cookies: [{ name: "consent", url: "https://app.example.com", value: "${env:CONSENT}" }],
+        login: {
+          actions: [
+            { selector: "#email", type: "fill", value: "${env:LOGIN_EMAIL}" },
+            { selector: "#password", type: "fill", value: "${env:LOGIN_PASSWORD}" },
+            { selector: "button[type=submit]", type: "click" },
+            { selectorOrMs: "#dashboard", type: "wait" },
+          ],
+          url: "https://app.example.com/login",
+        },
+      },
+      { CONSENT: "yes", LOGIN_EMAIL: "qa@example.com", LOGIN_PASSWORD: "hunter2" },
+    );
+
+    const first = await session.contextOptions(browser as unknown as Browser);
+    const second = await session.contextOptions(browser as unknown as Browser);
+
+    expect(first).toEqual({ storageState: { cookies: [{ name: "session" }], origins: [] } });
+    expect(second).toBe(first);
+    expect(browser.newContext).toHaveBeenCalledOnce();
+    expect(context.addCookies).toHaveBeenCalledWith([
+      { name: "consent", url: "https://app.example.com", value: "yes" },
+    ]);
+    expect(calls).toEqual([
+      "goto:https://app.example.com/login",
+      "fill:#email:qa@example.com",
+      "fill:#password:hunter2",
+      "click:button[type=submit]",
+      "waitFor:#dashboard",
+    ]);
+    expect(page.close).toHaveBeenCalledOnce();
+    expect(context.close).toHaveBeenCalledOnce();
+  });
+
+  it("names missing environment variables", async () => {
+    const { browser } = createBrowser();
+    const session = new AuthSession({ headers: { "X-Api-Key": "${env:MISSING_KEY}" } }, {});
+
+    await expect(session.contextOptions(browser as unknown as Browser)).rejects.toThrow(
+      "Environment variable MISSING_KEY referenced by auth is not set.",
+    );
+  });
+
+  it("reports which login action failed", async () => {
+    const { browser, context, page } = createBrowser();
+    const timeout = Object.assign(new Error("Timeout 10000ms exceeded."), { name: "TimeoutError" });
+    page.locator.mockReturnValue({
+      count: vi.fn().mockResolvedValue(0),
+      first: () => ({ click: vi.fn().mockRejectedValue(timeout), fill: vi.fn(), waitFor: vi.fn() }),
+    });
+    const session = new AuthSession({
+      login: { actions: [{ selector: "#sign-in", type: "click" }], url: "https://app.example.com/login" },
+    });
+
+    await expect(session.contextOptions(browser as unknown as Browser)).rejects.toThrow(
+      'Login flow failed: Action 1 (click "#sign-in") failed on https://app.example.com/login: selector did not appear within 10000ms',
+    );
+    expect(context.close).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,86 @@
+import type { Browser, BrowserContext, BrowserContextOptions } from "@playwright/test";
+
+import { runActions } from "../actions/index.ts";
+import type { AuthConfig } from "@/types";
+
+const ENV_REFERENCE = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export type AuthContextOptions = Pick<BrowserContextOptions, "extraHTTPHeaders" | "storageState">;
+
+/** Prepares the credentials of a `ScanPlan.auth` once so the crawl and scan contexts share one session. */
+export class AuthSession {
+  private prepared?: Promise<AuthContextOptions>;
+
+  constructor(
+    private readonly auth: AuthConfig,
+    private readonly env: NodeJS.ProcessEnv = process.env,
+  ) {}
+
+  /** Returns options to spread into `browser.newContext`. The login flow only runs on the first call. */
+  contextOptions(browser: Browser): Promise<AuthContextOptions> {
+    this.prepared ??= this.prepare(browser);
+    return this.prepared;
+  }
+
+  private async prepare(browser: Browser): Promise<AuthContextOptions> {
+    const { cookies = [], headers = {}, login, storageState } = this.auth;
+    const extraHTTPHeaders = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, this.expand(value)]),
+    );
+    const options: AuthContextOptions = {
+      ...(Object.keys(extraHTTPHeaders).length > 0 ? { extraHTTPHeaders } : {}),
+      ...(storageState === undefined ? {} : { storageState }),
+    };
+
+    if (cookies.length === 0 && !login) {
+      return options;
+    }
+
+    const context = await browser.newContext(options);
+
+    try {
+      if (cookies.length > 0) {
+        await context.addCookies(cookies.map((cookie) => ({ ...cookie, value: this.expand(cookie.value) })));
+      }
+
+      if (login) {
+        await this.login(context, login);
+      }
+
+      return { ...options, storageState: await context.storageState() };
+    } finally {
+      await context.close();
+    }
+  }
+
+  private async login(context: BrowserContext, login: NonNullable<AuthConfig["login"]>): Promise<void> {
+    const url = this.expand(login.url);
+    const actions = login.actions.map((action) =>
+      action.type === "fill" ? { ...action, value: this.expand(action.value) } : action,
+    );
+    const page = await context.newPage();
+
+    try {
+      await page.goto(url, { waitUntil: "domcontentloaded" });
+      await runActions(page, actions, url);
+    } catch (error) {
+      throw new Error(`Login flow failed: ${error instanceof Error ? error.message : String(error)}`, {
+        cause: error,
+      });
+    } finally {
+      await page.close();
+    }
+  }
+
+  private expand(value: string): string {
+    return value.replace(ENV_REFERENCE, (_match, name: string) => {
+      const secret = this.env[name];
+
+      if (secret === undefined) {
+        throw new Error(`Environment variable ${name} referenced by auth is not set.`);
+      }
+
+      return secret;
+    });
+  }
+}
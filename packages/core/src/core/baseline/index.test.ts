@@ -0,0 +1,135 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { Finding, ScanResult } from "@/types";
+import { applySuppressions, createBaseline, readBaseline } from "./index";
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map((directory) => rm(directory, { recursive: true, force: true })));
+});
+
+function createFinding(id: string, nodes: Array<{ fingerprint: string; target: string[] }>): Finding {
+  return {
+    description: "",
+    help: "",
+    helpUrl: "",
+    id,
+    impact: "serious",
+    nodes: nodes.map((node) => ({ ...node, html: "<div></div>" })),
+    tags: [],
+  };
+}
+
+function createResult(): ScanResult {
+  return {
+    summary: { duration: 1, pagesScanned: 2, totalFindings: 3 },
+    urlResults: [
+      {
+        findings: [
+          createFinding("color-contrast", [
+            { fingerprint: "aaaa", target: ["main", ".muted"] },
+            { fingerprint: "bbbb", target: ["footer a"] },
+          ]),
+          createFinding("image-alt", [{ fingerprint: "cccc", target: ["img.hero"] }]),
+        ],
+        url: "https://example.com/products/1",
+      },
+      {
+        findings: [createFinding("label", [{ fingerprint: "dddd", target: ["#email"] }])],
+        url: "https://example.com/login",
+      },
+    ],
+  };
+}
+
+describe("createBaseline", () => {
+  it("records the sorted fingerprints of every violating node", () => {
+    expect(createBaseline(createResult(), new Date("2026-01-02T03:04:05Z"))).toEqual({
+      createdAt: "2026-01-02T03:04:05.000Z",
+      fingerprints: ["aaaa", "bbbb", "cccc", "dddd"],
+      version: 1,
+    });
+  });
+});
+
+describe("readBaseline", () => {
+  it("reads a baseline file and rejects other JSON", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-baseline-"));
+    directories.push(directory);
+    const baselinePath = path.join(directory, "baseline.json");
+    const baseline = createBaseline(createResult());
+
+    await writeFile(baselinePath, JSON.stringify(baseline));
+    await expect(readBaseline(baselinePath)).resolves.toEqual(baseline);
+
+    await writeFile(baselinePath, JSON.stringify({ fingerprints: "aaaa", version: 1 }));
+    await expect(readBaseline(baselinePath)).rejects.toThrow(
+      `Invalid baseline file: ${baselinePath} is not a version 1 baseline.`,
+    );
+  });
+});
+
+describe("applySuppressions", () => {
+  it("marks baseline and suppressed nodes and counts new and known findings", () => {
+    const result = applySuppressions(
+      createResult(),
+      {
+        baseline: { createdAt: "2026-01-01T00:00:00.000Z", fingerprints: ["aaaa", "dddd"], version: 1 },
+        suppressions: [
+          { reason: "Brand colors under review", ruleId: "color-*", selector: "footer *", url: "/products/*" },
+          { expires: "2026-03-01", reason: "Hero images are replaced in Q1", ruleId: "image-alt" },
+        ],
+      },
+      new Date("2026-03-01T23:00:00Z"),
+    );
+    const [product, login] = result.urlResults;
+
+    expect(product?.findings[0]).toMatchObject({
+      nodes: [
+        { suppressed: { source: "baseline" } },
+        { suppressed: { reason: "Brand colors under review", source: "suppression" } },
+      ],
+      suppressed: true,
+    });
+    expect(product?.findings[1]).toMatchObject({
+      nodes: [
+        {
+          suppressed: { expires: "2026-03-01", reason: "Hero images are replaced in Q1", source: "suppression" },
+        },
+      ],
+      suppressed: true,
+    });
+    expect(login?.findings[0]?.suppressed).toBe(true);
+    expect(result.summary).toMatchObject({ knownFindings: 3, newFindings: 0, totalFindings: 3 });
+  });
+
+  it("ignores expired suppressions and suppressions that do not match every node", () => {
+    const result = applySuppressions(
+      createResult(),
+      {
+        suppressions: [
+          { reason: "Footer only", ruleId: "color-contrast", selector: "footer *" },
+          { expires: "2026-03-01", reason: "Expired", ruleId: "image-alt" },
+          { reason: "Other host", ruleId: "label", url: "https://staging.example.com/*" },
+        ],
+      },
+      new Date("2026-03-02T00:00:00Z"),
+    );
+    const [contrast, image] = result.urlResults[0]?.findings ?? [];
+
+    expect(contrast?.suppressed).toBeUndefined();
+    expect(contrast?.nodes.map((node) => node.suppressed?.source)).toEqual([undefined, "suppression"]);
+    expect(image?.nodes[0]?.suppressed).toBeUndefined();
+    expect(result.summary).toMatchObject({ knownFindings: 0, newFindings: 3 });
+  });
+
+  it("rejects invalid expiry dates", () => {
+    expect(() =>
+      applySuppressions(createResult(), { suppressions: [{ expires: "soon", reason: "", ruleId: "label" }] }),
+    ).toThrow("Invalid suppression expiry for label: soon");
+  });
+});
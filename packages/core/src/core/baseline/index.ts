@@ -0,0 +1,145 @@
+import { readFile } from "node:fs/promises";
+
+import { toWildcardSource } from "../wildcard/index.ts";
+import type { Baseline, Finding, ScanResult, Suppression, SuppressionMatch, UrlResult } from "@/types";
+
+const DAY_MS = 86_400_000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface SuppressionRules {
+  baseline?: Baseline;
+  suppressions?: Suppression[];
+}
+
+interface SuppressionMatcher {
+  match: SuppressionMatch;
+  matches: (finding: Finding, pageUrl: string, target: string[]) => boolean;
+}
+
+/** Marks the known findings of one page result. */
+export type Suppressor = (urlResult: UrlResult) => UrlResult;
+
+/** Records the fingerprints of every violating element in `result` as accepted findings. */
+export function createBaseline(result: ScanResult, createdAt = new Date()): Baseline {
+  const fingerprints = new Set(
+    result.urlResults.flatMap(({ findings }) =>
+      findings.flatMap(({ nodes }) => nodes.flatMap(({ fingerprint }) => (fingerprint ? [fingerprint] : []))),
+    ),
+  );
+
+  return { version: 1, createdAt: createdAt.toISOString(), fingerprints: [...fingerprints].sort() };
+}
+
+export async function readBaseline(filePath: string): Promise<Baseline> {
+  let content: string;
+
+  try {
+    content = await readFile(filePath, "utf8");
+  } catch (error) {
+    throw new Error(`Failed to read baseline file: ${filePath}`, { cause: error });
+  }
+
+  let baseline: unknown;
+
+  try {
+    baseline = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid baseline file: ${filePath} is not valid JSON.`, { cause: error });
+  }
+
+  if (!isBaseline(baseline)) {
+    throw new Error(`Invalid baseline file: ${filePath} is not a version 1 baseline.`);
+  }
+
+  return baseline;
+}
+
+/**
+ * Returns a function marking the violation nodes matched by an active suppression or the
+ * baseline, and findings whose every node is matched. Suppressions expired at `now` are ignored.
+ */
+export function createSuppressor({ baseline, suppressions = [] }: SuppressionRules, now = new Date()): Suppressor {
+  const fingerprints = new Set(baseline?.fingerprints);
+  const matchers = suppressions.filter((suppression) => isActive(suppression, now)).map(toMatcher);
+
+  return (urlResult) => ({
+    ...urlResult,
+    findings: urlResult.findings.map((finding) => {
+      const nodes = finding.nodes.map((node) => {
+        const suppressed: SuppressionMatch | undefined =
+          matchers.find(({ matches }) => matches(finding, urlResult.url, node.target))?.match ??
+          (node.fingerprint !== undefined && fingerprints.has(node.fingerprint) ? { source: "baseline" } : undefined);
+
+        return suppressed ? { ...node, suppressed } : node;
+      });
+      const suppressed = nodes.length > 0 && nodes.every((node) => node.suppressed !== undefined);
+
+      return { ...finding, nodes, ...(suppressed ? { suppressed } : {}) };
+    }),
+  });
+}
+
+/** Counts findings with an unsuppressed node as new and the rest as known. */
+export function summarizeSuppressions(urlResults: UrlResult[]): { knownFindings: number; newFindings: number } {
+  const findings = urlResults.flatMap((result) => result.findings);
+  const knownFindings = findings.filter((finding) => finding.suppressed).length;
+
+  return { knownFindings, newFindings: findings.length - knownFindings };
+}
+
+/** Marks the known findings of a finished scan and adds new and known counts to its summary. */
+export function applySuppressions(result: ScanResult, rules: SuppressionRules, now = new Date()): ScanResult {
+  const urlResults = result.urlResults.map(createSuppressor(rules, now));
+
+  return { ...result, summary: { ...result.summary, ...summarizeSuppressions(urlResults) }, urlResults };
+}
+
+function isBaseline(value: unknown): value is Baseline {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "version" in value &&
+    value.version === 1 &&
+    "createdAt" in value &&
+    typeof value.createdAt === "string" &&
+    "fingerprints" in value &&
+    Array.isArray(value.fingerprints) &&
+    value.fingerprints.every((fingerprint) => typeof fingerprint === "string")
+  );
+}
+
+function isActive({ expires, ruleId }: Suppression, now: Date): boolean {
+  if (expires === undefined) {
+    return true;
+  }
+
+  const expiresAt = Date.parse(expires);
+
+  if (Number.isNaN(expiresAt)) {
+    throw new Error(`Invalid suppression expiry for ${ruleId}: ${expires}`);
+  }
+
+  return now.getTime() < (DATE_ONLY.test(expires) ? expiresAt + DAY_MS : expiresAt);
+}
+
+function toMatcher({ expires, reason, ruleId, selector, url }: Suppression): SuppressionMatcher {
+  const rulePattern = toWildcardRegExp(ruleId);
+  const urlPattern = url === undefined ? undefined : toWildcardRegExp(url);
+  const selectorPattern = selector === undefined ? undefined : toWildcardRegExp(selector);
+
+  return {
+    match: { source: "suppression", reason, ...(expires === undefined ? {} : { expires }) },
+    matches: (finding, pageUrl, target) =>
+      rulePattern.test(finding.id) &&
+      (urlPattern === undefined || urlPattern.test(url?.startsWith("/") ? toPathname(pageUrl) : pageUrl)) &&
+      (selectorPattern === undefined || selectorPattern.test(target.join(" >> "))),
+  };
+}
+
+function toPathname(url: string): string {
+  return URL.canParse(url) ? new URL(url).pathname : url;
+}
+
+function toWildcardRegExp(pattern: string): RegExp {
+  return new RegExp(`^${toWildcardSource(pattern)}$`);
+}
@@ -0,0 +1,41 @@
+import { firefox, webkit } from "@playwright/test";
+import { describe, expect, it, vi } from "vitest";
+
+import { launchBrowser, resolveBrowsers } from "./index";
+
+describe("resolveBrowsers", () => {
+  it("defaults to Chromium and accepts a single engine or a list", () => {
+    expect(resolveBrowsers()).toEqual(["chromium"]);
+    expect(resolveBrowsers({ browser: "webkit" })).toEqual(["webkit"]);
+    expect(resolveBrowsers({ browser: ["chromium", "firefox", "webkit"] })).toEqual(["chromium", "firefox", "webkit"]);
+  });
+
+  it("rejects unknown and duplicate engines", () => {
+    expect(() => resolveBrowsers({ browser: "edge" as never })).toThrow(
+      'Unsupported browser "edge" in ScanOptions.browser; expected chromium, firefox, webkit.',
+    );
+    expect(() => resolveBrowsers({ browser: ["firefox", "firefox"] })).toThrow(
+      'Duplicate browser "firefox" in ScanOptions.browser.',
+    );
+  });
+});
+
+describe("launchBrowser", () => {
+  it("launches the requested engine", async () => {
+    const browser = { close: vi.fn() };
+    const launch = vi.spyOn(firefox, "launch").mockResolvedValue(browser as never);
+
+    await expect(launchBrowser("firefox")).resolves.toBe(browser);
+    expect(launch).toHaveBeenCalledOnce();
+  });
+
+  it("explains how to install a missing browser binary", async () => {
+    vi.spyOn(webkit, "launch").mockRejectedValue(
+      new Error("browserType.launch: Executable doesn't exist at /ms-playwright/webkit-2083/pw_run.sh"),
+    );
+
+    await expect(launchBrowser("webkit")).rejects.toThrow(
+      'The Playwright webkit browser is not installed. Run "npx playwright install webkit" and try again.',
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { chromium, firefox, webkit, type Browser, type BrowserType } from "@playwright/test";
+
+import type { BrowserEngine, ScanOptions } from "@/types";
+
+const BROWSER_ENGINES: BrowserEngine[] = ["chromium", "firefox", "webkit"];
+
+/** Lists the engines requested by `ScanOptions.browser`, defaulting to Chromium. */
+export function resolveBrowsers(options: ScanOptions = {}): BrowserEngine[] {
+  const requested = options.browser === undefined ? [] : [options.browser].flat();
+  const engines = new Set<BrowserEngine>();
+
+  for (const engine of requested) {
+    if (!BROWSER_ENGINES.includes(engine)) {
+      throw new Error(
+        `Unsupported browser "${engine}" in ScanOptions.browser; expected ${BROWSER_ENGINES.join(", ")}.`,
+      );
+    }
+
+    if (engines.has(engine)) {
+      throw new Error(`Duplicate browser "${engine}" in ScanOptions.browser.`);
+    }
+
+    engines.add(engine);
+  }
+
+  return engines.size > 0 ? [...engines] : ["chromium"];
+}
+
+/** Launches a Playwright browser, explaining how to install it when its binary is missing. */
+export async function launchBrowser(engine: BrowserEngine = "chromium"): Promise<Browser> {
+  try {
+    return await toBrowserType(engine).launch();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Executable doesn't exist")) {
+      throw new Error(
+        `The Playwright ${engine} browser is not installed. Run "npx playwright install ${engine}" and try again.`,
+        { cause: error },
+      );
+    }
+
+    throw error;
+  }
+}
+
+function toBrowserType(engine: BrowserEngine): BrowserType {
+  switch (engine) {
+    case "chromium":
+      return chromium;
+    case "firefox":
+      return firefox;
+    case "webkit":
+      return webkit;
+  }
+}
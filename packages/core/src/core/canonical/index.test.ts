@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { canonicalizeUrl } from "./index";
+
+describe("canonicalizeUrl", () => {
+  it("only removes the hash and lowercases the host by default", () => {
+    expect(canonicalizeUrl("https://Example.COM/Products/?utm_source=x&page=2#reviews")).toBe(
+      "https://example.com/Products/?utm_source=x&page=2",
+    );
+  });
+
+  it("strips tracking parameters by pattern and sorts the rest", () => {
+    const options = { sortQuery: true, stripParams: ["utm_*", "gclid"] };
+
+    expect(canonicalizeUrl("https://example.com/products?page=2&UTM_Source=x&gclid=1", options)).toBe(
+      "https://example.com/products?page=2",
+    );
+    expect(canonicalizeUrl("https://example.com/products?utm_source=y&sort=name&page=2", options)).toBe(
+      "https://example.com/products?page=2&sort=name",
+    );
+    expect(canonicalizeUrl("https://example.com/products?utm_medium=email", options)).toBe(
+      "https://example.com/products",
+    );
+  });
+
+  it("keeps the encoding of the parameters it does not strip", () => {
+    const options = { sortQuery: true, stripParams: ["utm_*"] };
+
+    expect(canonicalizeUrl("https://example.com/search?q=red%20shoes&utm_source=x&path=a%2Fb~c&tag=", options)).toBe(
+      "https://example.com/search?path=a%2Fb~c&q=red%20shoes&tag=",
+    );
+    expect(canonicalizeUrl("https://example.com/search?q=a+b&utm%5Fsource=x&name=%C3%A9t%C3%A9", options)).toBe(
+      "https://example.com/search?name=%C3%A9t%C3%A9&q=a+b",
+    );
+  });
+
+  it("drops every query string", () => {
+    expect(canonicalizeUrl("https://example.com/search?q=shoes", { dropQuery: true })).toBe(
+      "https://example.com/search",
+    );
+  });
+
+  it("adds or removes trailing slashes", () => {
+    expect(canonicalizeUrl("https://example.com/docs", { trailingSlash: "add" })).toBe("https://example.com/docs/");
+    expect(canonicalizeUrl("https://example.com/feed.xml", { trailingSlash: "add" })).toBe(
+      "https://example.com/feed.xml",
+    );
+    expect(canonicalizeUrl("https://example.com/docs/?page=2", { trailingSlash: "remove" })).toBe(
+      "https://example.com/docs?page=2",
+    );
+    expect(canonicalizeUrl("https://example.com/", { trailingSlash: "remove" })).toBe("https://example.com/");
+  });
+});
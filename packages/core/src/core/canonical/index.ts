@@ -0,0 +1,61 @@
+import picomatch from "picomatch";
+
+import type { CanonicalizationOptions } from "@/types";
+
+/**
+ * Rewrites `value` into the form used to deduplicate pages. The hash is always removed and
+ * the host is lowercased by URL parsing; the other rules come from `options`. Kept query
+ * parameters stay encoded exactly as they were.
+ */
+export function canonicalizeUrl(value: string, options: CanonicalizationOptions = {}): string {
+  const url = new URL(value);
+  const { dropQuery = false, sortQuery = false, stripParams = [], trailingSlash = "keep" } = options;
+
+  url.hash = "";
+
+  if (dropQuery) {
+    url.search = "";
+  } else if (stripParams.length > 0 || sortQuery) {
+    const isStripped = stripParams.length > 0 ? picomatch(stripParams, { nocase: true }) : () => false;
+    const params = url.search
+      .slice(1)
+      .split("&")
+      .filter((param) => param.length > 0)
+      .map((param) => ({ name: decodeParamName(param), param }))
+      .filter(({ name }) => !isStripped(name));
+
+    if (sortQuery) {
+      params.sort((left, right) => (left.name < right.name ? -1 : left.name > right.name ? 1 : 0));
+    }
+
+    url.search = params.map(({ param }) => param).join("&");
+  }
+
+  url.pathname = applyTrailingSlash(url.pathname, trailingSlash);
+
+  return url.toString();
+}
+
+/** Decodes the name of a raw `name=value` pair the way `URLSearchParams` would. */
+function decodeParamName(param: string): string {
+  const name = param.split("=", 1)[0].replaceAll("+", " ");
+
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/** `add` leaves paths whose last segment looks like a file name, such as `/feed.xml`, untouched. */
+function applyTrailingSlash(pathname: string, policy: NonNullable<CanonicalizationOptions["trailingSlash"]>): string {
+  if (policy === "remove" && pathname.length > 1 && pathname.endsWith("/")) {
+    return pathname.replace(/\/+$/, "") || "/";
+  }
+
+  if (policy === "add" && !pathname.endsWith("/") && !pathname.slice(pathname.lastIndexOf("/")).includes(".")) {
+    return `${pathname}/`;
+  }
+
+  return pathname;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import type { Finding, ScanResult, UrlResult } from "@/types";
+import { getWcagCriterion } from "../wcag/index.ts";
+import { createConformanceReport, renderConformanceMarkdown } from "./index";
+
+function toCriteria(id: string) {
+  const criterion = getWcagCriterion(id);
+
+  return criterion ? [criterion] : [];
+}
+
+function createFinding(id: string, criterionId: string): Finding {
+  return {
+    description: "",
+    help: "",
+    helpUrl: "",
+    id,
+    impact: "serious",
+    nodes: [{ html: "<div></div>", target: ["div"] }],
+    tags: [],
+    wcag: toCriteria(criterionId),
+  };
+}
+
+function createPage(url: string, page: Partial<UrlResult> = {}): UrlResult {
+  return {
+    findings: [],
+    passes: [{ id: "image-alt", nodeCount: 2, wcag: toCriteria("1.1.1") }],
+    url,
+    ...page,
+  };
+}
+
+const result: ScanResult = {
+  summary: { duration: 1, pagesScanned: 4, totalFindings: 3 },
+  urlResults: [
+    createPage("https://example.com/", {
+      findings: [createFinding("color-contrast", "1.4.3"), createFinding("label", "4.1.2")],
+      incomplete: [createFinding("color-contrast", "1.4.3")],
+    }),
+    createPage("https://example.com/about", { findings: [createFinding("color-contrast", "1.4.3")] }),
+    createPage("https://example.com/contact", { incomplete: [createFinding("link-in-text-block", "1.4.1")] }),
+    { error: "Navigation failed", findings: [], url: "https://example.com/broken" },
+  ],
+};
+
+describe("createConformanceReport", () => {
+  it("rates every level A and AA criterion from violations, passes and incomplete items", () => {
+    const report = createConformanceReport(result, { createdAt: new Date("2026-05-04T10:00:00Z") });
+    const byId = new Map(report.criteria.map((criterion) => [criterion.id, criterion]));
+
+    expect(report).toMatchObject({
+      createdAt: "2026-05-04T10:00:00.000Z",
+      pagesEvaluated: 3,
+      title: "Accessibility Conformance Report",
+      wcagVersion: "2.2",
+    });
+    expect(report.criteria).toHaveLength(55);
+    expect(byId.get("1.4.3")).toMatchObject({
+      failedRules: ["color-contrast"],
+      pagesFailed: 2,
+      remarks: "Failed color-contrast on 2 of 3 pages. Needs manual review: color-contrast.",
+      status: "Does Not Support",
+    });
+    expect(byId.get("4.1.2")).toMatchObject({ pagesFailed: 1, status: "Partially Supports" });
+    expect(byId.get("1.1.1")).toMatchObject({
+      passedRules: ["image-alt"],
+      remarks: "Passed image-alt.",
+      status: "Supports",
+    });
+    expect(byId.get("1.4.1")).toMatchObject({ reviewRules: ["link-in-text-block"], status: "Not Evaluated" });
+    expect(byId.get("2.4.7")).toMatchObject({
+      remarks: "Not covered by automated checks; needs manual evaluation.",
+      status: "Not Evaluated",
+    });
+    expect(byId.has("1.4.6")).toBe(false);
+  });
+
+  it("applies status and remark overrides and earlier WCAG versions", () => {
+    const report = createConformanceReport(result, {
+      criteria: { "2.4.7": { remarks: "Verified manually with keyboard navigation.", status: "Supports" } },
+      title: "Storefront ACR",
+      wcagVersion: "2.0",
+    });
+
+    expect(report.title).toBe("Storefront ACR");
+    expect(report.criteria).toHaveLength(38);
+    expect(report.criteria.find(({ id }) => id === "2.4.7")).toMatchObject({
+      remarks: "Verified manually with keyboard navigation.",
+      status: "Supports",
+    });
+  });
+});
+
+describe("renderConformanceMarkdown", () => {
+  it("renders one table per level with escaped remarks", () => {
+    const markdown = renderConformanceMarkdown(
+      createConformanceReport(result, {
+        createdAt: new Date("2026-05-04T10:00:00Z"),
+        criteria: { "1.1.1": { remarks: "Logos | icons have alt text" } },
+      }),
+    );
+
+    expect(markdown).toContain("# Accessibility Conformance Report");
+    expect(markdown).toContain("WCAG 2.2 Level A and AA, evaluated on 2026-05-04 across 3 pages");
+    expect(markdown).toContain("## Table 1: Success Criteria, Level A\n\n| Criteria | Conformance Level |");
+    expect(markdown).toContain("| 1.1.1 Non-text Content (Level A) | Supports | Logos \\| icons have alt text |");
+    expect(markdown).toContain("## Table 2: Success Criteria, Level AA");
+    expect(markdown).toContain("| 1.4.3 Contrast (Minimum) (Level AA) | Does Not Support |");
+  });
+});
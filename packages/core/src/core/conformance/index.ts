@@ -0,0 +1,149 @@
+import { listWcagCriteria } from "../wcag/index.ts";
+import type {
+  ConformanceCriterion,
+  ConformanceOptions,
+  ConformanceReport,
+  ConformanceStatus,
+  ScanResult,
+  WcagCriterion,
+  WcagLevel,
+} from "@/types";
+
+const DEFAULT_TITLE = "Accessibility Conformance Report";
+const LEVELS: WcagLevel[] = ["A", "AA"];
+
+/** Rule ids and failing pages collected for one criterion. */
+interface CriterionEvidence {
+  failedRules: Set<string>;
+  passedRules: Set<string>;
+  reviewRules: Set<string>;
+  pagesFailed: number;
+}
+
+/**
+ * Rates every level A and AA criterion of a WCAG version from the violations, passes and
+ * incomplete items of `result`. A criterion violated on more than half of the evaluated pages
+ * does not support, one violated on fewer partially supports, and one with only passing rules
+ * supports. Criteria with undecided items or no rules are not evaluated.
+ */
+export function createConformanceReport(result: ScanResult, options: ConformanceOptions = {}): ConformanceReport {
+  const wcagVersion = options.wcagVersion ?? "2.2";
+  const pages = result.urlResults.filter((urlResult) => urlResult.error === undefined);
+  const evidence = collectEvidence(pages);
+
+  return {
+    title: options.title ?? DEFAULT_TITLE,
+    wcagVersion,
+    createdAt: (options.createdAt ?? new Date()).toISOString(),
+    pagesEvaluated: pages.length,
+    criteria: listWcagCriteria(wcagVersion)
+      .filter(({ level }) => LEVELS.includes(level))
+      .map((criterion) => ({
+        ...rateCriterion(criterion, evidence.get(criterion.id), pages.length),
+        ...options.criteria?.[criterion.id],
+      })),
+  };
+}
+
+/** Renders a conformance report as Markdown tables per level, in the layout of the VPAT WCAG section. */
+export function renderConformanceMarkdown(report: ConformanceReport): string {
+  const date = report.createdAt.slice(0, 10);
+  const tables = LEVELS.flatMap((level, index) => {
+    const rows = report.criteria
+      .filter((criterion) => criterion.level === level)
+      .map(
+        ({ id, remarks, status, title }) => `| ${id} ${title} (Level ${level}) | ${status} | ${escapeCell(remarks)} |`,
+      );
+
+    return [
+      `## Table ${index + 1}: Success Criteria, Level ${level}`,
+      "",
+      "| Criteria | Conformance Level | Remarks and Explanations |",
+      "| --- | --- | --- |",
+      ...rows,
+      "",
+    ];
+  });
+
+  return [
+    `# ${report.title}`,
+    "",
+    `WCAG ${report.wcagVersion} Level A and AA, evaluated on ${date} across ${report.pagesEvaluated} pages with automated axe-core checks. Automated checks cover part of each criterion; review the statuses and remarks before publishing.`,
+    "",
+    ...tables,
+  ].join("\n");
+}
+
+function collectEvidence(pages: ScanResult["urlResults"]): Map<string, CriterionEvidence> {
+  const evidence = new Map<string, CriterionEvidence>();
+  const get = (id: string) => {
+    const entry = evidence.get(id) ?? {
+      failedRules: new Set<string>(),
+      pagesFailed: 0,
+      passedRules: new Set<string>(),
+      reviewRules: new Set<string>(),
+    };
+
+    evidence.set(id, entry);
+    return entry;
+  };
+
+  for (const { findings, incomplete = [], passes = [] } of pages) {
+    const failed = new Set<string>();
+
+    for (const { id, wcag = [] } of findings) {
+      for (const criterion of wcag) {
+        get(criterion.id).failedRules.add(id);
+        failed.add(criterion.id);
+      }
+    }
+
+    for (const criterionId of failed) {
+      get(criterionId).pagesFailed += 1;
+    }
+
+    for (const { id, wcag = [] } of passes) {
+      wcag.forEach((criterion) => get(criterion.id).passedRules.add(id));
+    }
+
+    for (const { id, wcag = [] } of incomplete) {
+      wcag.forEach((criterion) => get(criterion.id).reviewRules.add(id));
+    }
+  }
+
+  return evidence;
+}
+
+function rateCriterion(
+  criterion: WcagCriterion,
+  evidence: CriterionEvidence | undefined,
+  pagesEvaluated: number,
+): ConformanceCriterion {
+  const failedRules = [...(evidence?.failedRules ?? [])].sort();
+  const passedRules = [...(evidence?.passedRules ?? [])].sort();
+  const reviewRules = [...(evidence?.reviewRules ?? [])].sort();
+  const pagesFailed = evidence?.pagesFailed ?? 0;
+  const review = reviewRules.length > 0 ? ` Needs manual review: ${reviewRules.join(", ")}.` : "";
+  let status: ConformanceStatus;
+  let remarks: string;
+
+  if (pagesFailed > 0) {
+    status = pagesFailed > pagesEvaluated / 2 ? "Does Not Support" : "Partially Supports";
+    remarks = `Failed ${failedRules.join(", ")} on ${pagesFailed} of ${pagesEvaluated} pages.${review}`;
+  } else if (reviewRules.length > 0) {
+    status = "Not Evaluated";
+    remarks = `No violations found.${review}`;
+  } else if (passedRules.length > 0) {
+    status = "Supports";
+    remarks = `Passed ${passedRules.join(", ")}.`;
+  } else {
+    status = "Not Evaluated";
+    remarks = "Not covered by automated checks; needs manual evaluation.";
+  }
+
+  return { ...criterion, status, remarks, failedRules, passedRules, reviewRules, pagesFailed };
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
@@ -0,0 +1,138 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { Finding, ScanResult, UrlResult } from "@/types";
+import { diffScanResults, readScanResult } from "./index";
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map((directory) => rm(directory, { recursive: true, force: true })));
+});
+
+function createFinding(id: string, targets: string[][]): Finding {
+  return {
+    description: "",
+    help: `Fix ${id}`,
+    helpUrl: `https://dequeuniversity.com/rules/axe/${id}`,
+    id,
+    impact: "serious",
+    nodes: targets.map((target) => ({ html: "<div></div>", target })),
+    tags: [],
+  };
+}
+
+function createResult(urlResults: UrlResult[]): ScanResult {
+  return { summary: { duration: 1, pagesScanned: urlResults.length, totalFindings: 0 }, urlResults };
+}
+
+describe("diffScanResults", () => {
+  it("matches failing elements by page, rule and selector", () => {
+    const before = createResult([
+      {
+        findings: [createFinding("color-contrast", [[".muted"], ["footer a"]]), createFinding("label", [["#email"]])],
+        url: "https://example.com/",
+      },
+    ]);
+    const after = createResult([
+      {
+        findings: [createFinding("color-contrast", [["footer a"], [".badge"]]), createFinding("image-alt", [["img"]])],
+        url: "https://example.com/",
+      },
+    ]);
+
+    const diff = diffScanResults(before, after);
+
+    expect(diff.summary).toEqual({
+      fixedFindings: 2,
+      newFindings: 2,
+      pagesAdded: 0,
+      pagesNewlyErroring: 0,
+      pagesRemoved: 0,
+      unchangedFindings: 1,
+    });
+    expect(diff.newFindings.map(({ node, ruleId }) => `${ruleId} ${node.target.join(" >> ")}`)).toEqual([
+      "color-contrast .badge",
+      "image-alt img",
+    ]);
+    expect(diff.fixedFindings.map(({ node, ruleId }) => `${ruleId} ${node.target.join(" >> ")}`)).toEqual([
+      "color-contrast .muted",
+      "label #email",
+    ]);
+    expect(diff.unchangedFindings).toEqual([
+      {
+        help: "Fix color-contrast",
+        helpUrl: "https://dequeuniversity.com/rules/axe/color-contrast",
+        impact: "serious",
+        node: { html: "<div></div>", target: ["footer a"] },
+        ruleId: "color-contrast",
+        url: "https://example.com/",
+      },
+    ]);
+  });
+
+  it("reports added, removed and newly erroring pages without counting their findings as fixed", () => {
+    const before = createResult([
+      { findings: [createFinding("label", [["#email"]])], url: "https://example.com/login" },
+      { findings: [createFinding("region", [["main"]])], url: "https://example.com/old" },
+      { findings: [], url: "https://example.com/", viewport: "mobile" },
+    ]);
+    const after = createResult([
+      { error: "Navigation failed", findings: [], url: "https://example.com/login" },
+      { findings: [], url: "https://example.com/", viewport: "desktop" },
+      { findings: [], url: "https://example.com/", viewport: "mobile" },
+    ]);
+
+    const diff = diffScanResults(before, after);
+
+    expect(diff.fixedFindings).toEqual([]);
+    expect(diff.pagesAdded).toEqual([{ url: "https://example.com/", viewport: "desktop" }]);
+    expect(diff.pagesRemoved).toEqual([{ url: "https://example.com/old" }]);
+    expect(diff.pagesNewlyErroring).toEqual([{ error: "Navigation failed", url: "https://example.com/login" }]);
+  });
+});
+
+describe("readScanResult", () => {
+  it("reads a scan result file and rejects other JSON", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-scan-result-"));
+    directories.push(directory);
+    const resultPath = path.join(directory, "result.json");
+    const result = createResult([{ findings: [createFinding("image-alt", [["img"]])], url: "https://example.com/" }]);
+
+    await writeFile(resultPath, JSON.stringify(result));
+    await expect(readScanResult(resultPath)).resolves.toEqual(result);
+
+    await writeFile(resultPath, "{");
+    await expect(readScanResult(resultPath)).rejects.toThrow(
+      `Invalid scan result file: ${resultPath} is not valid JSON.`,
+    );
+
+    await writeFile(resultPath, JSON.stringify({ summary: {}, urlResults: [{ url: "https://example.com/" }] }));
+    await expect(readScanResult(resultPath)).rejects.toThrow(
+      `Invalid scan result file: ${resultPath} does not list page results.`,
+    );
+  });
+
+  it("rejects results with a malformed finding", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-scan-result-"));
+    directories.push(directory);
+    const resultPath = path.join(directory, "result.json");
+    const finding = createFinding("image-alt", [["img"]]);
+
+    for (const malformed of [
+      { ...finding, nodes: undefined },
+      { ...finding, nodes: [{ html: "<img>" }] },
+      { ...finding, impact: 3 },
+    ]) {
+      await writeFile(
+        resultPath,
+        JSON.stringify(createResult([{ findings: [malformed as unknown as Finding], url: "https://example.com/" }])),
+      );
+      await expect(readScanResult(resultPath)).rejects.toThrow(
+        `Invalid scan result file: ${resultPath} does not list page results.`,
+      );
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { readFile } from "node:fs/promises";
+
+import type { Finding, ScanDiff, ScanDiffFinding, ScanDiffPage, ScanResult, UrlResult } from "@/types";
+
+/**
+ * Compares two scans. Pages are matched by URL and scan matrix entry, and failing elements by
+ * page, rule id and selector. Elements of pages the later scan removed or failed to load are
+ * reported through the page lists rather than as fixed.
+ */
+export function diffScanResults(before: ScanResult, after: ScanResult): ScanDiff {
+  const beforePages = new Map(before.urlResults.map((result) => [toPageKey(result), result]));
+  const afterPages = new Map(after.urlResults.map((result) => [toPageKey(result), result]));
+  const beforeFindings = toFindingMap(before.urlResults);
+  const afterFindings = toFindingMap(after.urlResults);
+  const newFindings = [...afterFindings].filter(([key]) => !beforeFindings.has(key)).map(([, finding]) => finding);
+  const unchangedFindings = [...afterFindings].filter(([key]) => beforeFindings.has(key)).map(([, finding]) => finding);
+  const fixedFindings = [...beforeFindings]
+    .filter(([key, finding]) => !afterFindings.has(key) && isLoaded(afterPages.get(toPageKey(finding))))
+    .map(([, finding]) => finding);
+  const pagesAdded = after.urlResults.filter((result) => !beforePages.has(toPageKey(result))).map(toDiffPage);
+  const pagesRemoved = before.urlResults.filter((result) => !afterPages.has(toPageKey(result))).map(toDiffPage);
+  const pagesNewlyErroring = after.urlResults
+    .filter((result) => result.error !== undefined && isLoaded(beforePages.get(toPageKey(result))))
+    .map(toDiffPage);
+
+  return {
+    summary: {
+      newFindings: newFindings.length,
+      fixedFindings: fixedFindings.length,
+      unchangedFindings: unchangedFindings.length,
+      pagesAdded: pagesAdded.length,
+      pagesRemoved: pagesRemoved.length,
+      pagesNewlyErroring: pagesNewlyErroring.length,
+    },
+    newFindings,
+    fixedFindings,
+    unchangedFindings,
+    pagesAdded,
+    pagesRemoved,
+    pagesNewlyErroring,
+  };
+}
+
+/** Reads a JSON scan result, such as the CLI writes with `--format json`, for diffing or reporting. */
+export async function readScanResult(filePath: string): Promise<ScanResult> {
+  let content: string;
+
+  try {
+    content = await readFile(filePath, "utf8");
+  } catch (error) {
+    throw new Error(`Failed to read scan result file: ${filePath}`, { cause: error });
+  }
+
+  let result: unknown;
+
+  try {
+    result = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid scan result file: ${filePath} is not valid JSON.`, { cause: error });
+  }
+
+  if (!isScanResult(result)) {
+    throw new Error(`Invalid scan result file: ${filePath} does not list page results.`);
+  }
+
+  return result;
+}
+
+function isLoaded(result: UrlResult | undefined): boolean {
+  return result !== undefined && result.error === undefined;
+}
+
+/** Lists the failing elements of `urlResults` by page, rule and selector, keeping the first of duplicates. */
+function toFindingMap(urlResults: UrlResult[]): Map<string, ScanDiffFinding> {
+  const findings = new Map<string, ScanDiffFinding>();
+
+  for (const result of urlResults) {
+    const { error: _error, ...page } = toDiffPage(result);
+
+    for (const { help, helpUrl, id, impact, nodes } of result.findings) {
+      for (const node of nodes) {
+        const finding = { ...page, help, helpUrl, impact, node, ruleId: id };
+        const key = JSON.stringify([toPageKey(page), id, node.target.join(" >> ")]);
+
+        if (!findings.has(key)) {
+          findings.set(key, finding);
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+function toDiffPage({ browser, emulation, error, url, viewport }: UrlResult): ScanDiffPage {
+  return {
+    url,
+    ...(browser === undefined ? {} : { browser }),
+    ...(viewport === undefined ? {} : { viewport }),
+    ...(emulation === undefined ? {} : { emulation }),
+    ...(error === undefined ? {} : { error }),
+  };
+}
+
+function toPageKey({ browser, emulation, url, viewport }: Omit<ScanDiffPage, "error">): string {
+  return JSON.stringify([url, browser ?? null, viewport ?? null, emulation ?? null]);
+}
+
+function isScanResult(value: unknown): value is ScanResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "summary" in value &&
+    typeof value.summary === "object" &&
+    value.summary !== null &&
+    "urlResults" in value &&
+    Array.isArray(value.urlResults) &&
+    value.urlResults.every(isUrlResult)
+  );
+}
+
+function isUrlResult(value: unknown): value is UrlResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "url" in value &&
+    typeof value.url === "string" &&
+    "findings" in value &&
+    Array.isArray(value.findings) &&
+    value.findings.every(isFinding)
+  );
+}
+
+function isFinding(value: unknown): value is Finding {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "id" in value &&
+    typeof value.id === "string" &&
+    "impact" in value &&
+    typeof value.impact === "string" &&
+    "nodes" in value &&
+    Array.isArray(value.nodes) &&
+    value.nodes.every(
+      (node: unknown) =>
+        typeof node === "object" &&
+        node !== null &&
+        "target" in node &&
+        Array.isArray(node.target) &&
+        node.target.every((selector: unknown) => typeof selector === "string"),
+    )
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveEmulations } from "./index";
+
+describe("resolveEmulations", () => {
+  it("applies a single emulation to every page", () => {
+    expect(resolveEmulations()).toEqual([{ contextOptions: {} }]);
+    expect(
+      resolveEmulations({ emulation: { locale: "pt-PT", reducedMotion: "reduce", timezoneId: "Europe/Lisbon" } }),
+    ).toEqual([{ contextOptions: { locale: "pt-PT", reducedMotion: "reduce", timezoneId: "Europe/Lisbon" } }]);
+  });
+
+  it("expands a list into named variants", () => {
+    expect(
+      resolveEmulations({
+        emulation: [
+          { colorScheme: "light", name: "light" },
+          { colorScheme: "dark", name: "dark" },
+          { forcedColors: "active", name: "high-contrast" },
+        ],
+      }),
+    ).toEqual([
+      { contextOptions: { colorScheme: "light" }, name: "light" },
+      { contextOptions: { colorScheme: "dark" }, name: "dark" },
+      { contextOptions: { forcedColors: "active" }, name: "high-contrast" },
+    ]);
+  });
+
+  it("requires unique names for every listed variant", () => {
+    expect(() => resolveEmulations({ emulation: [{ colorScheme: "dark" }] })).toThrow(
+      "Every ScanOptions.emulation entry needs a name when a list is given.",
+    );
+    expect(() =>
+      resolveEmulations({
+        emulation: [
+          { colorScheme: "dark", name: "dark" },
+          { forcedColors: "active", name: "dark" },
+        ],
+      }),
+    ).toThrow('Duplicate emulation name "dark" in ScanOptions.emulation.');
+  });
+});
@@ -0,0 +1,41 @@
+import type { BrowserContextOptions } from "@playwright/test";
+
+import type { EmulationOptions, ScanOptions } from "@/types";
+
+export interface ResolvedEmulation {
+  /** Omitted when a single unnamed `ScanOptions.emulation` applies to every page */
+  name?: string;
+  contextOptions: BrowserContextOptions;
+}
+
+/** Expands `ScanOptions.emulation` into browser context options, one entry per variant to scan. */
+export function resolveEmulations(options: ScanOptions = {}): ResolvedEmulation[] {
+  const { emulation } = options;
+
+  if (emulation === undefined || (Array.isArray(emulation) && emulation.length === 0)) {
+    return [{ contextOptions: {} }];
+  }
+
+  if (!Array.isArray(emulation)) {
+    return [toResolvedEmulation(emulation)];
+  }
+
+  const names = new Set<string>();
+
+  return emulation.map((entry) => {
+    if (entry.name === undefined) {
+      throw new Error("Every ScanOptions.emulation entry needs a name when a list is given.");
+    }
+
+    if (names.has(entry.name)) {
+      throw new Error(`Duplicate emulation name "${entry.name}" in ScanOptions.emulation.`);
+    }
+
+    names.add(entry.name);
+    return toResolvedEmulation(entry);
+  });
+}
+
+function toResolvedEmulation({ name, ...contextOptions }: EmulationOptions): ResolvedEmulation {
+  return { contextOptions, ...(name === undefined ? {} : { name }) };
+}
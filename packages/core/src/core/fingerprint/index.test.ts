@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { fingerprintFinding, fingerprintNode, toPathTemplate } from "./index";
+
+describe("toPathTemplate", () => {
+  it.each([
+    ["https://example.com/", "/"],
+    ["https://Example.com/products/123/reviews/?page=2#top", "/products/:id/reviews"],
+    ["https://example.com/orders/3f2504e0-4f89-11d3-9a0c-0305e82c3301", "/orders/:id"],
+    ["https://example.com/assets/9f86d081884c7d65/app", "/assets/:id/app"],
+    ["https://example.com/blog/accessible-forms", "/blog/accessible-forms"],
+    ["about:blank", "/blank"],
+    ["not a url", ""],
+  ])("reduces %s to %s", (url, template) => {
+    expect(toPathTemplate(url)).toBe(template);
+  });
+});
+
+describe("fingerprints", () => {
+  it("are short hex digests that change with each input", () => {
+    const node = { html: '<img src="logo.png">', target: ["img"] };
+    const fingerprint = fingerprintNode("image-alt", "/", node);
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprintNode("image-alt", "/", { ...node, failureSummary: "Add alt text" })).toBe(fingerprint);
+    expect(fingerprintNode("image-alt", "/", { ...node, html: '<img src="hero.png">' })).not.toBe(fingerprint);
+    expect(fingerprintNode("image-alt", "/about", node)).not.toBe(fingerprint);
+    expect(fingerprintNode("role-img-alt", "/", node)).not.toBe(fingerprint);
+    expect(fingerprintFinding("image-alt", "/")).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprintFinding("image-alt", "/")).not.toBe(fingerprintFinding("image-alt", "/about"));
+  });
+});
@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+
+import type { FindingNode } from "@/types";
+
+const FINGERPRINT_LENGTH = 16;
+const VARIABLE_SEGMENTS = [
+  /^\d+$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^(?=.*\d)[0-9a-f]{16,}$/i,
+];
+
+/**
+ * Reduces a page URL to its path, with numeric, UUID and hash-like segments replaced by `:id`.
+ * The host, query and hash are ignored so one issue matches across environments and sessions.
+ */
+export function toPathTemplate(url: string): string {
+  if (!URL.canParse(url)) {
+    return "";
+  }
+
+  const segments = new URL(url).pathname
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => (VARIABLE_SEGMENTS.some((pattern) => pattern.test(segment)) ? ":id" : segment));
+
+  return `/${segments.join("/")}`;
+}
+
+/** Identifies a rule failing on a page template. */
+export function fingerprintFinding(ruleId: string, pathTemplate: string): string {
+  return hash([ruleId, pathTemplate]);
+}
+
+/** Identifies one failing element: the finding's identity plus its selector and markup. */
+export function fingerprintNode(ruleId: string, pathTemplate: string, { html, target }: FindingNode): string {
+  return hash([ruleId, pathTemplate, target.map(collapseWhitespace).join(" >> "), hash([normalizeHtml(html)])]);
+}
+
+function collapseWhitespace(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+/** Whitespace between tags is dropped, since reformatted markup renders the same element. */
+function normalizeHtml(html: string): string {
+  return collapseWhitespace(html).replace(/>\s+</g, "><");
+}
+
+function hash(parts: string[]): string {
+  return createHash("sha256").update(parts.join("\n")).digest("hex").slice(0, FINGERPRINT_LENGTH);
+}
@@ -1,4 +1,25 @@
-export { normalizeAxeResult } from "./normalizer/index.ts";
+export { AuthSession, type AuthContextOptions } from "./auth/index.ts";
+export {
+  applySuppressions,
+  createBaseline,
+  createSuppressor,
+  readBaseline,
+  summarizeSuppressions,
+  type SuppressionRules,
+  type Suppressor,
+} from "./baseline/index.ts";
+export { launchBrowser, resolveBrowsers } from "./browsers/index.ts";
+export { canonicalizeUrl } from "./canonical/index.ts";
+export { createConformanceReport, renderConformanceMarkdown } from "./conformance/index.ts";
+export { diffScanResults, readScanResult } from "./diff/index.ts";
+export { resolveEmulations, type ResolvedEmulation } from "./emulation/index.ts";
+export { normalizeAxeOutcomes, normalizeAxeResult } from "./normalizer/index.ts";
 export { PageScanner } from "./page-scanner/index.ts";
-export { UrlSource } from "./url-source/index.ts";
+export { createAxeSource, loadAxePlugins } from "./plugins/index.ts";
+export { Politeness } from "./politeness/index.ts";
+export { captureScreenshots } from "./screenshots/index.ts";
+export { isAllowedByRobots, parseRobotsTxt, type RobotsRules } from "./robots/index.ts";
+export { UrlSource, type CrawledPage, type CrawlVisit, type CrawlVisitor } from "./url-source/index.ts";
+export { resolveViewports, type ResolvedViewport } from "./viewports/index.ts";
+export { decodeWcagTags, getWcagCriterion, listWcagCriteria } from "./wcag/index.ts";
 export { MarkdownParser } from "../parsers/markdown-parser.ts";
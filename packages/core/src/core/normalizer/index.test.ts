@@ -1,7 +1,8 @@
 import type { AxeResults } from "axe-core";
 import { describe, expect, it } from "vitest";
 
-import { normalizeAxeResult } from "./index";
+import { getWcagCriterion } from "../wcag/index.ts";
+import { normalizeAxeOutcomes, normalizeAxeResult } from "./index";
 
 function withViolations(violations: AxeResults["violations"]): AxeResults {
   return { violations } as AxeResults;
@@ -71,7 +72,7 @@ describe("normalizeAxeResult", () => {
               target: ["#banner img"],
             },
           ],
-          tags: ["cat.text-alternatives", "wcag2a"],
+          tags: ["cat.text-alternatives", "wcag2a", "wcag111"],
         },
       ]),
     );
@@ -80,26 +81,119 @@ describe("normalizeAxeResult", () => {
       {
         description: "Images must have alternative text",
         help: "Images must have alternate text",
+        fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
         helpUrl: "https://dequeuniversity.com/rules/axe/4.13/image-alt",
         id: "image-alt",
         impact: "critical",
         nodes: [
           {
             failureSummary: "Fix this image.",
+            fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
             html: '<img src="logo.png">',
             target: ["main", "img"],
           },
           {
+            fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
             html: '<img src="banner.png">',
             target: ["#banner img"],
           },
         ],
-        tags: ["cat.text-alternatives", "wcag2a"],
+        tags: ["cat.text-alternatives", "wcag2a", "wcag111"],
+        wcag: [{ id: "1.1.1", level: "A", principle: "Perceivable", title: "Non-text Content", version: "2.0" }],
       },
     ]);
   });
 
+  it("fingerprints findings by rule and path template, and nodes by selector and markup as well", () => {
+    const violation = (html: string, target: string[]) =>
+      withViolations([
+        {
+          description: "Buttons must have discernible text",
+          help: "Buttons must have discernible text",
+          helpUrl: "https://dequeuniversity.com/rules/axe/4.13/button-name",
+          id: "button-name",
+          impact: "critical",
+          nodes: [{ all: [], any: [], html, impact: "critical", none: [], target }],
+          tags: ["wcag2a"],
+        },
+      ]);
+    const button = "<button></button>";
+    const [first] = normalizeAxeResult(violation(button, ["#cart > button"]), "https://shop.example.com/orders/42");
+    const [same] = normalizeAxeResult(
+      violation("<button>\n</button>", ["#cart  >  button"]),
+      "http://staging.example.com/orders/7?tab=items#top",
+    );
+    const [moved] = normalizeAxeResult(violation(button, ["#header > button"]), "https://example.com/orders/1");
+    const [otherPage] = normalizeAxeResult(violation(button, ["#cart > button"]), "https://example.com/help");
+
+    expect(same?.fingerprint).toBe(first?.fingerprint);
+    expect(same?.nodes[0]?.fingerprint).toBe(first?.nodes[0]?.fingerprint);
+    expect(moved?.fingerprint).toBe(first?.fingerprint);
+    expect(moved?.nodes[0]?.fingerprint).not.toBe(first?.nodes[0]?.fingerprint);
+    expect(otherPage?.fingerprint).not.toBe(first?.fingerprint);
+  });
+
   it("returns no findings when Axe reports no violations", () => {
     expect(normalizeAxeResult(withViolations([]))).toEqual([]);
   });
 });
+
+describe("normalizeAxeOutcomes", () => {
+  const axeResult = {
+    inapplicable: [{ id: "video-caption", nodes: [] }],
+    incomplete: [
+      {
+        description: "Ensures the contrast between foreground and background colors meets WCAG 2 AA",
+        help: "Elements must meet minimum color contrast ratio thresholds",
+        helpUrl: "https://dequeuniversity.com/rules/axe/4.13/color-contrast",
+        id: "color-contrast",
+        impact: "serious",
+        nodes: [
+          {
+            all: [],
+            any: [],
+            failureSummary: "Fix any of the following: background image prevents a contrast check",
+            html: '<h1 class="hero">Sale</h1>',
+            impact: "serious",
+            none: [],
+            target: [".hero"],
+          },
+        ],
+        tags: ["wcag2aa", "wcag143"],
+      },
+    ],
+    passes: [{ id: "image-alt", nodes: [{}, {}], tags: ["wcag2a", "wcag111"] }],
+    violations: [],
+  } as unknown as AxeResults;
+
+  it("returns nothing unless outcomes are requested", () => {
+    expect(normalizeAxeOutcomes(axeResult, {})).toEqual({});
+  });
+
+  it("maps incomplete results to findings and summarizes passes and inapplicable rules", () => {
+    expect(normalizeAxeOutcomes(axeResult, { inapplicable: true, incomplete: true, passes: true })).toEqual({
+      inapplicable: ["video-caption"],
+      incomplete: [
+        {
+          description: "Ensures the contrast between foreground and background colors meets WCAG 2 AA",
+          help: "Elements must meet minimum color contrast ratio thresholds",
+          fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+          helpUrl: "https://dequeuniversity.com/rules/axe/4.13/color-contrast",
+          id: "color-contrast",
+          impact: "serious",
+          nodes: [
+            {
+              failureSummary: "Fix any of the following: background image prevents a contrast check",
+              fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+              html: '<h1 class="hero">Sale</h1>',
+              target: [".hero"],
+            },
+          ],
+          tags: ["wcag2aa", "wcag143"],
+          wcag: [{ id: "1.4.3", level: "AA", principle: "Perceivable", title: "Contrast (Minimum)", version: "2.0" }],
+        },
+      ],
+      passes: [{ id: "image-alt", nodeCount: 2, wcag: [getWcagCriterion("1.1.1")] }],
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import type { AxeResults, Result } from "axe-core";
 
-import type { Finding, Severity } from "@/types";
+import { fingerprintFinding, fingerprintNode, toPathTemplate } from "../fingerprint/index.ts";
+import { decodeWcagTags } from "../wcag/index.ts";
+import type { Finding, FindingNode, PageScanResult, ScanOptions, Severity } from "@/types";
 
 function normalizeSeverity(impact: Result["impact"]): Severity {
   switch (impact) {
@@ -14,18 +16,56 @@ function normalizeSeverity(impact: Result["impact"]): Severity {
   }
 }
 
-export function normalizeAxeResult(axeResult: AxeResults): Finding[] {
-  return axeResult.violations.map((violation) => ({
-    id: violation.id,
-    impact: normalizeSeverity(violation.impact),
-    tags: violation.tags,
-    description: violation.description,
-    help: violation.help,
-    helpUrl: violation.helpUrl,
-    nodes: violation.nodes.map((node) => ({
-      html: node.html,
-      target: node.target.flat(),
-      ...(node.failureSummary === undefined ? {} : { failureSummary: node.failureSummary }),
-    })),
-  }));
+function normalizeRule(result: Result, pathTemplate: string): Finding {
+  return {
+    id: result.id,
+    impact: normalizeSeverity(result.impact),
+    tags: result.tags,
+    description: result.description,
+    help: result.help,
+    helpUrl: result.helpUrl,
+    wcag: decodeWcagTags(result.tags),
+    fingerprint: fingerprintFinding(result.id, pathTemplate),
+    nodes: result.nodes.map((axeNode) => {
+      const node: FindingNode = { html: axeNode.html, target: axeNode.target.flat() };
+
+      return {
+        ...node,
+        ...(axeNode.failureSummary === undefined ? {} : { failureSummary: axeNode.failureSummary }),
+        fingerprint: fingerprintNode(result.id, pathTemplate, node),
+      };
+    }),
+  };
+}
+
+/** Fingerprints are computed against `url`, which defaults to the URL axe reports for the page. */
+export function normalizeAxeResult(axeResult: AxeResults, url = axeResult.url ?? ""): Finding[] {
+  const pathTemplate = toPathTemplate(url);
+
+  return axeResult.violations.map((result) => normalizeRule(result, pathTemplate));
+}
+
+/** Normalizes the non-violation outcomes requested through `ScanOptions.outcomes`. */
+export function normalizeAxeOutcomes(
+  axeResult: AxeResults,
+  outcomes: NonNullable<ScanOptions["outcomes"]>,
+  url = axeResult.url ?? "",
+): Omit<PageScanResult, "findings"> {
+  const pathTemplate = toPathTemplate(url);
+
+  return {
+    ...(outcomes.incomplete
+      ? { incomplete: axeResult.incomplete.map((result) => normalizeRule(result, pathTemplate)) }
+      : {}),
+    ...(outcomes.passes
+      ? {
+          passes: axeResult.passes.map((result) => ({
+            id: result.id,
+            nodeCount: result.nodes.length,
+            wcag: decodeWcagTags(result.tags),
+          })),
+        }
+      : {}),
+    ...(outcomes.inapplicable ? { inapplicable: axeResult.inapplicable.map((result) => result.id) } : {}),
+  };
 }
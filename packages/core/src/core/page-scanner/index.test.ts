@@ -2,25 +2,30 @@ import type { AxeResults } from "axe-core";
 import type { Page } from "@playwright/test";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import type { DOMAction } from "@/types";
+
 const axeMocks = vi.hoisted(() => {
   const analyze = vi.fn();
-  const withTags = vi.fn();
+  const options = vi.fn();
   const AxeBuilder = vi.fn();
 
-  return { analyze, AxeBuilder, withTags };
+  return { analyze, AxeBuilder, options };
 });
 
-const normalizerMocks = vi.hoisted(() => ({ normalizeAxeResult: vi.fn() }));
+const normalizerMocks = vi.hoisted(() => ({ normalizeAxeOutcomes: vi.fn(), normalizeAxeResult: vi.fn() }));
+const screenshotMocks = vi.hoisted(() => ({ captureScreenshots: vi.fn() }));
 
 vi.mock("@axe-core/playwright", () => ({ AxeBuilder: axeMocks.AxeBuilder }));
 vi.mock("../normalizer/index.ts", () => normalizerMocks);
+vi.mock("../screenshots/index.ts", () => screenshotMocks);
 
 import { PageScanner } from "./index";
 
 describe("PageScanner", () => {
   beforeEach(() => {
-    axeMocks.AxeBuilder.mockReturnValue({ withTags: axeMocks.withTags });
-    axeMocks.withTags.mockReturnValue({ analyze: axeMocks.analyze });
+    axeMocks.AxeBuilder.mockReturnValue({ options: axeMocks.options });
+    axeMocks.options.mockReturnValue({ analyze: axeMocks.analyze });
+    normalizerMocks.normalizeAxeOutcomes.mockReturnValue({});
   });
 
   afterEach(() => {
@@ -47,12 +52,66 @@ describe("PageScanner", () => {
     axeMocks.analyze.mockResolvedValue(axeResult);
     normalizerMocks.normalizeAxeResult.mockReturnValue(findings);
 
-    await expect(new PageScanner().scan("https://example.com", page)).resolves.toEqual(findings);
+    await expect(new PageScanner().scan({ url: "https://example.com" }, page)).resolves.toEqual({
+      attempts: 1,
+      findings,
+    });
 
     expect(goto).toHaveBeenCalledWith("https://example.com", { waitUntil: "domcontentloaded" });
     expect(axeMocks.AxeBuilder).toHaveBeenCalledWith({ page });
-    expect(axeMocks.withTags).toHaveBeenCalledWith(["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"]);
-    expect(normalizerMocks.normalizeAxeResult).toHaveBeenCalledWith(axeResult);
+    expect(axeMocks.options).toHaveBeenCalledWith({
+      runOnly: { type: "tag", values: ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"] },
+    });
+    expect(normalizerMocks.normalizeAxeResult).toHaveBeenCalledWith(axeResult, "https://example.com");
+    expect(normalizerMocks.normalizeAxeOutcomes).toHaveBeenCalledWith(axeResult, {}, "https://example.com");
+  });
+
+  it("adds the requested non-violation outcomes to the page result", async () => {
+    const axeResult = { violations: [] } as unknown as AxeResults;
+    const page = { goto: vi.fn().mockResolvedValue(null) } as unknown as Page;
+
+    axeMocks.analyze.mockResolvedValue(axeResult);
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+    normalizerMocks.normalizeAxeOutcomes.mockReturnValue({ passes: [{ id: "image-alt", nodeCount: 2 }] });
+
+    await expect(
+      new PageScanner({ outcomes: { passes: true } }).scan({ url: "https://example.com" }, page),
+    ).resolves.toEqual({ attempts: 1, findings: [], passes: [{ id: "image-alt", nodeCount: 2 }] });
+    expect(normalizerMocks.normalizeAxeOutcomes).toHaveBeenCalledWith(
+      axeResult,
+      { passes: true },
+      "https://example.com",
+    );
+  });
+
+  it("fingerprints findings against the URL onLoad reports the page under", async () => {
+    const axeResult = { violations: [] } as unknown as AxeResults;
+    const page = { goto: vi.fn().mockResolvedValue(null) } as unknown as Page;
+
+    axeMocks.analyze.mockResolvedValue(axeResult);
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+
+    await new PageScanner().scan({ url: "https://example.com/?ref=nav" }, page, async () => "https://example.com/");
+
+    expect(normalizerMocks.normalizeAxeResult).toHaveBeenCalledWith(axeResult, "https://example.com/");
+    expect(normalizerMocks.normalizeAxeOutcomes).toHaveBeenCalledWith(axeResult, {}, "https://example.com/");
+  });
+
+  it("captures screenshots after axe runs when the options ask for them", async () => {
+    const page = { goto: vi.fn().mockResolvedValue(null) } as unknown as Page;
+    const findings = [{ id: "button-name", nodes: [{ html: "<button></button>", target: ["#menu"] }] }];
+    const captured = [{ ...findings[0], nodes: [{ ...findings[0]?.nodes[0], screenshot: "/shots/menu.png" }] }];
+
+    axeMocks.analyze.mockResolvedValue({ violations: [] });
+    normalizerMocks.normalizeAxeResult.mockReturnValue(findings);
+    screenshotMocks.captureScreenshots.mockResolvedValue({ findings: captured, screenshot: "/shots/page.png" });
+
+    await expect(
+      new PageScanner({ screenshots: { outputDir: "/shots" } }).scan({ url: "https://example.com" }, page),
+    ).resolves.toEqual({ attempts: 1, findings: captured, screenshot: "/shots/page.png" });
+    expect(screenshotMocks.captureScreenshots).toHaveBeenCalledWith(page, "https://example.com", findings, {
+      outputDir: "/shots",
+    });
   });
 
   it("propagates failures without writing to the console", async () => {
@@ -63,7 +122,8 @@ describe("PageScanner", () => {
     const warn = vi.spyOn(console, "warn");
     const error = vi.spyOn(console, "error");
 
-    await expect(new PageScanner().scan("https://example.com", page)).rejects.toThrow(failure);
+    await expect(new PageScanner().scan({ url: "https://example.com" }, page)).rejects.toThrow(failure);
+    expect(failure).toHaveProperty("attempts", 1);
 
     expect(axeMocks.AxeBuilder).not.toHaveBeenCalled();
     expect(normalizerMocks.normalizeAxeResult).not.toHaveBeenCalled();
@@ -71,4 +131,257 @@ describe("PageScanner", () => {
     expect(warn).not.toHaveBeenCalled();
     expect(error).not.toHaveBeenCalled();
   });
+
+  it("applies plan-level axe configuration with per-target rule overrides", async () => {
+    const page = { goto: vi.fn().mockResolvedValue(null) } as unknown as Page;
+
+    axeMocks.analyze.mockResolvedValue({ violations: [] });
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+
+    await new PageScanner({
+      axe: { bestPractices: true, disabledRules: ["region"], enabledRules: ["bypass"], wcag22: true },
+    }).scan(
+      { rules: { bypass: { enabled: false }, "color-contrast": { enabled: false } }, url: "https://example.com" },
+      page,
+    );
+
+    expect(axeMocks.options).toHaveBeenCalledWith({
+      rules: { bypass: { enabled: false }, "color-contrast": { enabled: false }, region: { enabled: false } },
+      runOnly: {
+        type: "tag",
+        values: ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa", "wcag22a", "wcag22aa", "best-practice"],
+      },
+    });
+  });
+
+  it("edits the rule list when running only specific rules", async () => {
+    const page = { goto: vi.fn().mockResolvedValue(null) } as unknown as Page;
+
+    axeMocks.analyze.mockResolvedValue({ violations: [] });
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+
+    await new PageScanner({ axe: { runOnly: ["image-alt", "label"], tags: ["wcag2a"] } }).scan(
+      { rules: { label: { enabled: false }, "link-name": { enabled: true } }, url: "https://example.com" },
+      page,
+    );
+
+    expect(axeMocks.options).toHaveBeenCalledWith({
+      runOnly: { type: "rule", values: ["image-alt", "link-name"] },
+    });
+  });
+
+  it("registers plugin rules with axe, enables them and marks their results with the plugin name", async () => {
+    const page = { goto: vi.fn().mockResolvedValue(null) } as unknown as Page;
+    const finding = (id: string) => ({ id, nodes: [] });
+
+    axeMocks.analyze.mockResolvedValue({ violations: [] });
+    normalizerMocks.normalizeAxeResult.mockReturnValue([finding("dialog-close-button"), finding("image-alt")]);
+    normalizerMocks.normalizeAxeOutcomes.mockReturnValue({ incomplete: [finding("dialog-close-button")] });
+
+    const scanner = new PageScanner({ axe: { disabledRules: ["dialog-title"] } }, [
+      {
+        checks: [{ evaluate: (node) => node.hasAttribute("data-close"), id: "has-data-close" }],
+        name: "house-rules",
+        rules: [
+          { all: ["has-data-close"], id: "dialog-close-button", selector: "dialog" },
+          { id: "dialog-title", selector: "dialog" },
+        ],
+      },
+    ]);
+
+    await expect(scanner.scan({ url: "https://example.com" }, page)).resolves.toEqual({
+      attempts: 1,
+      findings: [{ ...finding("dialog-close-button"), source: "house-rules" }, finding("image-alt")],
+      incomplete: [{ ...finding("dialog-close-button"), source: "house-rules" }],
+    });
+    expect(axeMocks.AxeBuilder).toHaveBeenCalledWith({ axeSource: expect.stringContaining(";axe.configure("), page });
+    expect(axeMocks.options).toHaveBeenCalledWith({
+      rules: { "dialog-close-button": { enabled: true }, "dialog-title": { enabled: false } },
+      runOnly: { type: "tag", values: ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"] },
+    });
+  });
+
+  it("replays target actions in order before running Axe", async () => {
+    const calls: string[] = [];
+    const locator = vi.fn((selector: string) => ({
+      first: () => ({
+        click: vi.fn(async (options: unknown) => calls.push(`click:${selector}:${JSON.stringify(options)}`)),
+        fill: vi.fn(async (value: string, options: unknown) =>
+          calls.push(`fill:${selector}:${value}:${JSON.stringify(options)}`)),
+        waitFor: vi.fn(async (options: unknown) => calls.push(`waitFor:${selector}:${JSON.stringify(options)}`)),
+      }),
+    }));
+    const page = {
+      goto: vi.fn(async () => calls.push("goto")),
+      locator,
+      waitForTimeout: vi.fn(async (ms: number) => calls.push(`sleep:${ms}`)),
+    } as unknown as Page;
+
+    axeMocks.analyze.mockImplementation(async () => {
+      calls.push("analyze");
+      return { violations: [] };
+    });
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+
+    await new PageScanner({ actionTimeout: 2000 }).scan(
+      {
+        actions: [
+          { selector: "#add-to-cart", type: "click" },
+          { selectorOrMs: ".cart-drawer-open", timeout: 500, type: "wait" },
+          { selector: "#email", type: "fill", value: "user@example.com" },
+          { selectorOrMs: 250, type: "wait" },
+        ],
+        url: "https://example.com/products/one",
+      },
+      page,
+    );
+
+    expect(calls).toEqual([
+      "goto",
+      'click:#add-to-cart:{"timeout":2000}',
+      'waitFor:.cart-drawer-open:{"state":"visible","timeout":500}',
+      'fill:#email:user@example.com:{"timeout":2000}',
+      "sleep:250",
+      "analyze",
+    ]);
+  });
+
+  it("identifies the failing action when a selector never appears", async () => {
+    const timeout = Object.assign(new Error("locator.waitFor: Timeout 500ms exceeded."), { name: "TimeoutError" });
+    const page = {
+      goto: vi.fn().mockResolvedValue(null),
+      locator: vi.fn(() => ({
+        count: vi.fn().mockResolvedValue(0),
+        first: () => ({ waitFor: vi.fn().mockRejectedValue(timeout) }),
+      })),
+    } as unknown as Page;
+
+    await expect(
+      new PageScanner().scan(
+        {
+          actions: [{ selectorOrMs: "dialog[open]", timeout: 500, type: "wait" }],
+          url: "https://example.com/",
+        },
+        page,
+      ),
+    ).rejects.toThrow(
+      'Action 1 (wait for "dialog[open]") failed on https://example.com/: selector did not appear within 500ms',
+    );
+    expect(axeMocks.AxeBuilder).not.toHaveBeenCalled();
+  });
+
+  it("reports elements that exist but cannot be clicked or filled", async () => {
+    const timeout = Object.assign(new Error("locator.click: Timeout 500ms exceeded."), { name: "TimeoutError" });
+    const page = {
+      goto: vi.fn().mockResolvedValue(null),
+      locator: vi.fn(() => ({
+        count: vi.fn().mockResolvedValue(1),
+        first: () => ({ click: vi.fn().mockRejectedValue(timeout), fill: vi.fn().mockRejectedValue(timeout) }),
+      })),
+    } as unknown as Page;
+    const scanWith = (action: DOMAction) =>
+      new PageScanner().scan({ actions: [action], url: "https://example.com/" }, page);
+
+    await expect(scanWith({ selector: "#buy", timeout: 500, type: "click" })).rejects.toThrow(
+      'Action 1 (click "#buy") failed on https://example.com/: element could not be clicked within 500ms; it may be hidden, disabled or covered',
+    );
+    await expect(scanWith({ selector: "#email", timeout: 500, type: "fill", value: "a@example.com" })).rejects.toThrow(
+      'Action 1 (fill "#email") failed on https://example.com/: element could not be filled within 500ms; it may be hidden, disabled or read-only',
+    );
+  });
+
+  it("waits for the configured load state, selector and settle delay", async () => {
+    const calls: string[] = [];
+    const page = {
+      goto: vi.fn(async (_url: string, options: unknown) => calls.push(`goto:${JSON.stringify(options)}`)),
+      locator: vi.fn((selector: string) => ({
+        first: () => ({
+          waitFor: vi.fn(async (options: unknown) => calls.push(`waitFor:${selector}:${JSON.stringify(options)}`)),
+        }),
+      })),
+      waitForTimeout: vi.fn(async (ms: number) => calls.push(`sleep:${ms}`)),
+    } as unknown as Page;
+
+    axeMocks.analyze.mockImplementation(async () => {
+      calls.push("analyze");
+      return { violations: [] };
+    });
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+
+    await new PageScanner({
+      navigation: {
+        settleDelay: 300,
+        timeout: 5000,
+        waitForSelector: "#root[data-hydrated]",
+        waitUntil: "networkidle",
+      },
+    }).scan({ url: "https://example.com" }, page);
+
+    expect(calls).toEqual([
+      'goto:{"waitUntil":"networkidle","timeout":5000}',
+      'waitFor:#root[data-hydrated]:{"state":"visible","timeout":5000}',
+      "sleep:300",
+      "analyze",
+    ]);
+  });
+
+  it("retries transient navigation failures and records the attempts", async () => {
+    const timeout = Object.assign(new Error("page.goto: Timeout 5000ms exceeded."), { name: "TimeoutError" });
+    const goto = vi
+      .fn()
+      .mockRejectedValueOnce(timeout)
+      .mockRejectedValueOnce(new Error("page.goto: net::ERR_CONNECTION_RESET"))
+      .mockResolvedValue(null);
+    const page = { goto } as unknown as Page;
+
+    axeMocks.analyze.mockResolvedValue({ violations: [] });
+    normalizerMocks.normalizeAxeResult.mockReturnValue([]);
+
+    const scanner = new PageScanner({ navigation: { retry: { attempts: 3, backoff: 0 } } });
+
+    await expect(scanner.scan({ url: "https://example.com" }, page)).resolves.toEqual({ attempts: 3, findings: [] });
+    expect(goto).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops waiting out the retry backoff when the signal aborts", async () => {
+    const timeout = Object.assign(new Error("page.goto: Timeout 5000ms exceeded."), { name: "TimeoutError" });
+    const goto = vi.fn().mockRejectedValue(timeout);
+    const page = { goto } as unknown as Page;
+    const controller = new AbortController();
+    const scanner = new PageScanner({ navigation: { retry: { attempts: 5, backoff: 60_000 } } });
+    const startedAt = Date.now();
+
+    const scanning = scanner.scan({ url: "https://example.com" }, page, undefined, controller.signal);
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(scanning).rejects.toMatchObject({ attempts: 1, name: "AbortError" });
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    expect(goto).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports the attempts made when every retry fails", async () => {
+    const timeout = Object.assign(new Error("page.goto: Timeout 5000ms exceeded."), { name: "TimeoutError" });
+    const page = { goto: vi.fn().mockRejectedValue(timeout) } as unknown as Page;
+
+    const failure = await new PageScanner({ navigation: { retry: { attempts: 2, backoff: 0 } } })
+      .scan({ url: "https://example.com/" }, page)
+      .catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(Error);
+    expect(failure).toMatchObject({
+      attempts: 2,
+      cause: timeout,
+      message: "Navigation to https://example.com/ failed after 2 attempts: page.goto: Timeout 5000ms exceeded.",
+    });
+  });
+
+  it("does not retry failures that are not transient", async () => {
+    const goto = vi.fn().mockRejectedValue(new Error("page.goto: Protocol error"));
+    const page = { goto } as unknown as Page;
+
+    const scanner = new PageScanner({ navigation: { retry: { attempts: 3, backoff: 0 } } });
+
+    await expect(scanner.scan({ url: "https://example.com" }, page)).rejects.toThrow("page.goto: Protocol error");
+    expect(goto).toHaveBeenCalledOnce();
+  });
 });
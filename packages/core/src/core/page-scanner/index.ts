@@ -1,17 +1,181 @@
 import { AxeBuilder } from "@axe-core/playwright";
 import type { Page } from "@playwright/test";
+import type { RunOptions } from "axe-core";
+import { setTimeout as delay } from "node:timers/promises";
 
-import { normalizeAxeResult } from "../normalizer/index.ts";
-import type { Finding } from "@/types";
+import { runActions } from "../actions/index.ts";
+import { normalizeAxeOutcomes, normalizeAxeResult } from "../normalizer/index.ts";
+import { createAxeSource } from "../plugins/index.ts";
+import { captureScreenshots } from "../screenshots/index.ts";
+import type { AxeConfig, AxePlugin, Finding, PageScanResult, PageTarget, ScanOptions } from "@/types";
 
 const WCAG_TAGS = ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa"];
+const WCAG_22_TAGS = ["wcag22a", "wcag22aa"];
+const BEST_PRACTICE_TAG = "best-practice";
+const DEFAULT_RETRY_BACKOFF = 1_000;
 
 export class PageScanner {
-  async scan(url: string, page: Page): Promise<Finding[]> {
-    await page.goto(url, { waitUntil: "domcontentloaded" });
+  /** Plugin names by the ids of the rules they register */
+  private readonly ruleSources: Map<string, string>;
+  private readonly axeSource?: string;
 
-    const axeResult = await new AxeBuilder({ page }).withTags(WCAG_TAGS).analyze();
+  /** `plugins` are registered with axe on every page; load the plan's `axe.plugins` with `loadAxePlugins`. */
+  constructor(
+    private readonly options: ScanOptions = {},
+    plugins: AxePlugin[] = [],
+  ) {
+    this.ruleSources = new Map(plugins.flatMap(({ name, rules = [] }) => rules.map(({ id }) => [id, name])));
+    this.axeSource = plugins.length > 0 ? createAxeSource(plugins) : undefined;
+  }
+
+  /**
+   * Failures are rethrown with an `attempts` property holding the navigation attempts made for the page.
+   * `onLoad` runs once navigation settles, before the target's actions, and may resolve to the URL
+   * the page is reported under, such as its canonical URL; findings are fingerprinted against it.
+   * Aborting `signal` stops navigation retries, including one waiting out its backoff.
+   */
+  async scan(
+    target: PageTarget,
+    page: Page,
+    onLoad?: (page: Page) => Promise<string | void>,
+    signal?: AbortSignal,
+  ): Promise<PageScanResult> {
+    const navigation = { attempts: 0 };
+
+    try {
+      await this.navigate(target, page, navigation, signal);
+      const url = (await onLoad?.(page)) || target.url;
+      await runActions(page, target.actions ?? [], target.url, this.options.actionTimeout);
+
+      const axeResult = await new AxeBuilder({ page, ...(this.axeSource ? { axeSource: this.axeSource } : {}) })
+        .options(toRunOptions(this.options.axe ?? {}, target.rules ?? {}, [...this.ruleSources.keys()]))
+        .analyze();
+
+      const findings = this.withSources(normalizeAxeResult(axeResult, url));
+      const { incomplete, ...outcomes } = normalizeAxeOutcomes(axeResult, this.options.outcomes ?? {}, url);
+      const { screenshots } = this.options;
+
+      return {
+        findings,
+        ...(incomplete ? { incomplete: this.withSources(incomplete) } : {}),
+        ...outcomes,
+        ...(screenshots ? await captureScreenshots(page, url, findings, screenshots) : {}),
+        attempts: navigation.attempts,
+      };
+    } catch (error) {
+      throw Object.assign(error instanceof Error ? error : new Error(String(error)), {
+        attempts: navigation.attempts,
+      });
+    }
+  }
+
+  /** Navigates to the target as `scan` does, without running actions or axe. */
+  async load(target: PageTarget, page: Page, signal?: AbortSignal): Promise<void> {
+    await this.navigate(target, page, { attempts: 0 }, signal);
+  }
+
+  private withSources(findings: Finding[]): Finding[] {
+    return findings.map((finding) => {
+      const source = this.ruleSources.get(finding.id);
 
-    return normalizeAxeResult(axeResult);
+      return source === undefined ? finding : { ...finding, source };
+    });
   }
+
+  private async navigate(
+    target: PageTarget,
+    page: Page,
+    navigation: { attempts: number },
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const { retry = {}, settleDelay, timeout, waitForSelector, waitUntil } = this.options.navigation ?? {};
+    const maxAttempts = Math.max(1, retry.attempts ?? 1);
+    const timeoutOption = timeout === undefined ? {} : { timeout };
+
+    for (;;) {
+      navigation.attempts += 1;
+
+      try {
+        await page.goto(target.url, { waitUntil: waitUntil ?? "domcontentloaded", ...timeoutOption });
+
+        if (waitForSelector !== undefined) {
+          await page.locator(waitForSelector).first().waitFor({ state: "visible", ...timeoutOption });
+        }
+
+        break;
+      } catch (error) {
+        if (navigation.attempts >= maxAttempts || !isTransientFailure(error) || signal?.aborted) {
+          throw navigation.attempts === 1
+            ? error
+            : new Error(
+                `Navigation to ${target.url} failed after ${navigation.attempts} attempts: ${toMessage(error)}`,
+                { cause: error },
+              );
+        }
+
+        await delay((retry.backoff ?? DEFAULT_RETRY_BACKOFF) * 2 ** (navigation.attempts - 1), undefined, { signal });
+      }
+    }
+
+    if (settleDelay) {
+      await page.waitForTimeout(settleDelay);
+    }
+  }
+}
+
+function toRunOptions(
+  axe: AxeConfig,
+  targetRules: NonNullable<PageTarget["rules"]>,
+  pluginRules: string[],
+): RunOptions {
+  const rules: Record<string, { enabled: boolean }> = {};
+
+  for (const id of [...pluginRules, ...(axe.enabledRules ?? [])]) {
+    rules[id] = { enabled: true };
+  }
+
+  for (const id of axe.disabledRules ?? []) {
+    rules[id] = { enabled: false };
+  }
+
+  for (const [id, { enabled }] of Object.entries(targetRules)) {
+    rules[id] = { enabled };
+  }
+
+  const runOnlyRules = axe.runOnly ?? axe.rules;
+
+  if (runOnlyRules !== undefined) {
+    // axe ignores `rules` when running by rule id, so per-rule toggles edit the list instead.
+    const values = new Set(runOnlyRules);
+
+    for (const [id, { enabled }] of Object.entries(rules)) {
+      if (enabled) {
+        values.add(id);
+      } else {
+        values.delete(id);
+      }
+    }
+
+    return { runOnly: { type: "rule", values: [...values] } };
+  }
+
+  const tags = [
+    ...(axe.tags ?? WCAG_TAGS),
+    ...(axe.wcag22 ? WCAG_22_TAGS : []),
+    ...(axe.bestPractices ? [BEST_PRACTICE_TAG] : []),
+  ];
+
+  return {
+    runOnly: { type: "tag", values: [...new Set(tags)] },
+    ...(Object.keys(rules).length > 0 ? { rules } : {}),
+  };
+}
+
+/** Timeouts and network-level errors are worth retrying; anything else would fail the same way again. */
+function isTransientFailure(error: unknown): boolean {
+  return error instanceof Error && (error.name === "TimeoutError" || error.message.includes("net::ERR_"));
+}
+
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
@@ -0,0 +1,28 @@
+export default {
+  name: "house-rules",
+  checks: [
+    {
+      id: "has-data-close",
+      evaluate(node) {
+        return node.querySelector("button[data-close]") !== null;
+      },
+      metadata: {
+        impact: "serious",
+        messages: { pass: "Dialog has a close button", fail: "Dialog has no close button" },
+      },
+    },
+  ],
+  rules: [
+    {
+      id: "dialog-close-button",
+      selector: "dialog",
+      all: ["has-data-close"],
+      tags: ["house-rules"],
+      metadata: {
+        description: "Ensures every dialog has a close button with a data-close attribute",
+        help: "Dialogs must have a data-close button",
+        helpUrl: "https://example.com/house-rules/dialog-close-button",
+      },
+    },
+  ],
+};
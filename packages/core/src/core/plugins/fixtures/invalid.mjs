@@ -0,0 +1 @@
+export default { rules: [] };
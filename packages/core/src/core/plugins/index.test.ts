@@ -0,0 +1,70 @@
+import axe from "axe-core";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+
+import type { AxePlugin } from "@/types";
+import { createAxeSource, loadAxePlugins } from "./index";
+
+const fixtures = path.join(import.meta.dirname, "fixtures");
+
+describe("loadAxePlugins", () => {
+  it("imports the default export of each module", async () => {
+    const [plugin] = await loadAxePlugins([path.join(fixtures, "house-rules.mjs")]);
+
+    expect(plugin).toMatchObject({ name: "house-rules", rules: [{ id: "dialog-close-button" }] });
+  });
+
+  it("rejects missing modules, modules without a named plugin and rules registered twice", async () => {
+    const pluginPath = path.join(fixtures, "house-rules.mjs");
+    const invalidPath = path.join(fixtures, "invalid.mjs");
+    const missingPath = path.join(fixtures, "missing.mjs");
+
+    await expect(loadAxePlugins([missingPath])).rejects.toThrow(`Failed to load axe plugin: ${missingPath}`);
+    await expect(loadAxePlugins([invalidPath])).rejects.toThrow(
+      `Invalid axe plugin: ${invalidPath} does not export a plugin with a name as its default.`,
+    );
+    await expect(loadAxePlugins([pluginPath, pluginPath])).rejects.toThrow(
+      "Axe plugins house-rules and house-rules both register the rule dialog-close-button.",
+    );
+  });
+});
+
+describe("createAxeSource", () => {
+  it("appends an axe.configure call that keeps check functions runnable", () => {
+    const plugins: AxePlugin[] = [
+      {
+        checks: [
+          { evaluate: (node) => node.hasAttribute("data-close"), id: "arrow" },
+          {
+            evaluate: function (node) {
+              return node.id === "close";
+            },
+            id: "expression",
+          },
+          {
+            evaluate(node) {
+              return node.tagName === "BUTTON";
+            },
+            id: "method",
+          },
+        ],
+        name: "house-rules",
+        rules: [{ all: ["arrow"], id: "dialog-close-button", selector: "dialog", tags: ["house"] }],
+      },
+    ];
+    const source = createAxeSource(plugins);
+    let spec: { checks: Array<{ id: string; evaluate: (node: unknown) => boolean }>; rules: unknown[] } | undefined;
+
+    expect(source.startsWith(axe.source)).toBe(true);
+
+    new Function("axe", source.slice(axe.source.length))({ configure: (value: typeof spec) => (spec = value) });
+    const button = { hasAttribute: () => true, id: "close", tagName: "BUTTON" };
+
+    expect(spec?.rules).toEqual([{ all: ["arrow"], id: "dialog-close-button", selector: "dialog", tags: ["house"] }]);
+    expect(spec?.checks.map(({ evaluate, id }) => [id, evaluate(button)])).toEqual([
+      ["arrow", true],
+      ["expression", true],
+      ["method", true],
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import axe from "axe-core";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import type { AxePlugin } from "@/types";
+
+/** Imports the `AxePlugin` default exports of local modules, resolving paths against the working directory. */
+export async function loadAxePlugins(modulePaths: string[]): Promise<AxePlugin[]> {
+  const plugins: AxePlugin[] = [];
+
+  for (const modulePath of modulePaths) {
+    let module: { default?: unknown };
+
+    try {
+      module = await import(/* @vite-ignore */ pathToFileURL(path.resolve(modulePath)).href);
+    } catch (error) {
+      throw new Error(`Failed to load axe plugin: ${modulePath}`, { cause: error });
+    }
+
+    if (!isAxePlugin(module.default)) {
+      throw new Error(`Invalid axe plugin: ${modulePath} does not export a plugin with a name as its default.`);
+    }
+
+    plugins.push(module.default);
+  }
+
+  const ruleSources = new Map<string, string>();
+
+  for (const { name, rules = [] } of plugins) {
+    for (const { id } of rules) {
+      const other = ruleSources.get(id);
+
+      if (other !== undefined) {
+        throw new Error(`Axe plugins ${other} and ${name} both register the rule ${id}.`);
+      }
+
+      ruleSources.set(id, name);
+    }
+  }
+
+  return plugins;
+}
+
+/** Returns the axe-core source followed by an `axe.configure` call registering the checks and rules of `plugins`. */
+export function createAxeSource(plugins: AxePlugin[]): string {
+  const checks = plugins.flatMap((plugin) => plugin.checks ?? []);
+  const rules = plugins.flatMap((plugin) => plugin.rules ?? []);
+
+  return `${axe.source}\n;axe.configure(${toSource({ checks, rules })});`;
+}
+
+function isAxePlugin(value: unknown): value is AxePlugin {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const { checks = [], name, rules = [] } = value as Partial<Record<keyof AxePlugin, unknown>>;
+
+  return typeof name === "string" && name.length > 0 && Array.isArray(checks) && Array.isArray(rules);
+}
+
+/** Writes `value` as a JavaScript expression, keeping functions as code so the browser can run them. */
+function toSource(value: unknown): string {
+  if (typeof value === "function") {
+    const source = Function.prototype.toString.call(value);
+
+    // Method shorthand such as `evaluate(node) {}` is only valid inside an object literal.
+    return /^(async\s*)?(function\b|\(|[\w$]+\s*=>)/.test(source)
+      ? `(${source})`
+      : `({ ${source} })[${JSON.stringify(value.name)}]`;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(toSource).join(", ")}]`;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}: ${toSource(entry)}`).join(", ")}}`;
+  }
+
+  return JSON.stringify(value) ?? "undefined";
+}
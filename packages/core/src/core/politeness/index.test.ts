@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Politeness } from "./index";
+
+function mockRobots(content: string, status = 200): Response {
+  return { ok: status >= 200 && status < 300, status, text: vi.fn().mockResolvedValue(content) } as unknown as Response;
+}
+
+describe("Politeness", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", vi.fn());
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("ignores robots.txt unless it is respected", async () => {
+    const politeness = new Politeness({ userAgent: "A11yPageChecker/1.0" });
+
+    await expect(politeness.isAllowed("https://example.com/admin")).resolves.toBe(true);
+    await politeness.wait("https://example.com/admin");
+    expect(fetch).not.toHaveBeenCalled();
+    expect(politeness.contextOptions()).toEqual({ userAgent: "A11yPageChecker/1.0" });
+    expect(new Politeness().requestInit()).toEqual({});
+  });
+
+  it("fetches robots.txt once per origin and allows everything when it is missing", async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(mockRobots("User-agent: *\nDisallow: /admin\n"))
+      .mockResolvedValueOnce(mockRobots("Not found", 404));
+    const politeness = new Politeness({ respectRobotsTxt: true });
+
+    await expect(politeness.isAllowed("https://example.com/admin/users")).resolves.toBe(false);
+    await expect(politeness.isAllowed("https://example.com/about")).resolves.toBe(true);
+    await expect(politeness.isAllowed("https://docs.example.com/admin")).resolves.toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes the signal to the robots.txt fetch", async () => {
+    vi.mocked(fetch).mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason))),
+    );
+    const politeness = new Politeness({ respectRobotsTxt: true, userAgent: "A11yPageChecker/1.0" });
+    const controller = new AbortController();
+
+    const allowed = politeness.isAllowed("https://example.com/admin", controller.signal);
+    controller.abort();
+
+    await expect(allowed).resolves.toBe(true);
+    expect(fetch).toHaveBeenCalledWith(new URL("https://example.com/robots.txt"), {
+      headers: { "User-Agent": "A11yPageChecker/1.0" },
+      signal: controller.signal,
+    });
+  });
+
+  it("spaces page loads on one host by the larger of hostDelay and Crawl-delay", async () => {
+    vi.mocked(fetch).mockResolvedValue(mockRobots("User-agent: *\nCrawl-delay: 2\n"));
+    const politeness = new Politeness({ hostDelay: 500, respectRobotsTxt: true });
+    const started: string[] = [];
+    const load = (url: string) => politeness.wait(url).then(() => started.push(`${Date.now()}:${url}`));
+
+    const loads = Promise.all([
+      load("https://example.com/one"),
+      load("https://example.com/two"),
+      load("https://other.test/"),
+    ]);
+    await vi.advanceTimersByTimeAsync(2000);
+    await loads;
+
+    expect(started).toEqual(["0:https://example.com/one", "0:https://other.test/", "2000:https://example.com/two"]);
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const politeness = new Politeness({ hostDelay: 1000 });
+    const controller = new AbortController();
+
+    await politeness.wait("https://example.com/one", controller.signal);
+    const waiting = politeness.wait("https://example.com/two", controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow("aborted");
+  });
+});
@@ -0,0 +1,86 @@
+import type { BrowserContextOptions } from "@playwright/test";
+import { setTimeout as delay } from "node:timers/promises";
+
+import { isAllowedByRobots, parseRobotsTxt, type RobotsRules } from "../robots/index.ts";
+import type { PolitenessOptions } from "@/types";
+
+const NO_RULES: RobotsRules = { rules: [] };
+
+/**
+ * Applies `ScanOptions.politeness` to every request of a scan. One instance is shared by the
+ * crawl and the scan so robots.txt is fetched once per origin and host delays span both.
+ */
+export class Politeness {
+  private readonly robots = new Map<string, Promise<RobotsRules>>();
+  private readonly nextRequestAt = new Map<string, number>();
+
+  constructor(private readonly options: PolitenessOptions = {}) {}
+
+  /** Returns options to spread into `browser.newContext`. */
+  contextOptions(): Pick<BrowserContextOptions, "userAgent"> {
+    return this.options.userAgent === undefined ? {} : { userAgent: this.options.userAgent };
+  }
+
+  /** Returns init to pass to `fetch` for requests made outside the browser. */
+  requestInit(): RequestInit {
+    return this.options.userAgent === undefined ? {} : { headers: { "User-Agent": this.options.userAgent } };
+  }
+
+  /**
+   * Resolves to `false` when robots.txt is respected and disallows `url`. Aborting `signal`
+   * cancels the robots.txt fetch.
+   */
+  async isAllowed(url: string, signal?: AbortSignal): Promise<boolean> {
+    if (!this.options.respectRobotsTxt) {
+      return true;
+    }
+
+    return isAllowedByRobots(await this.rulesFor(url, signal), url);
+  }
+
+  /**
+   * Waits until a page on the host of `url` may be loaded, reserving the next slot
+   * so concurrent callers are spaced out as well. Rejects when `signal` aborts.
+   */
+  async wait(url: string, signal?: AbortSignal): Promise<void> {
+    const crawlDelay = this.options.respectRobotsTxt ? ((await this.rulesFor(url, signal)).crawlDelay ?? 0) * 1000 : 0;
+    const interval = Math.max(this.options.hostDelay ?? 0, crawlDelay);
+
+    if (interval <= 0) {
+      return;
+    }
+
+    const { host } = new URL(url);
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+
+    this.nextRequestAt.set(host, startAt + interval);
+
+    if (startAt > now) {
+      await delay(startAt - now, undefined, { signal });
+    }
+  }
+
+  private rulesFor(url: string, signal?: AbortSignal): Promise<RobotsRules> {
+    const { origin } = new URL(url);
+    let rules = this.robots.get(origin);
+
+    if (!rules) {
+      rules = this.fetchRules(origin, signal);
+      this.robots.set(origin, rules);
+    }
+
+    return rules;
+  }
+
+  /** A missing, unreachable or aborted robots.txt allows every URL; callers check `signal` themselves. */
+  private async fetchRules(origin: string, signal?: AbortSignal): Promise<RobotsRules> {
+    try {
+      const response = await fetch(new URL("/robots.txt", origin), { ...this.requestInit(), signal });
+
+      return response.ok ? parseRobotsTxt(await response.text(), this.options.userAgent) : NO_RULES;
+    } catch {
+      return NO_RULES;
+    }
+  }
+}
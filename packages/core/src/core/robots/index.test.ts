@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { isAllowedByRobots, parseRobotsTxt } from "./index";
+
+const ROBOTS_TXT = `
+# Example robots.txt
+User-agent: *
+Disallow: /admin
+Crawl-delay: 5
+
+User-agent: Googlebot
+User-agent: A11yPageChecker
+Disallow: /search?
+Disallow: /*.pdf$
+Allow: /private/public
+Disallow: /private # internal pages
+Crawl-delay: 0.5
+
+User-agent: A11yPageChecker-Beta
+Disallow: /
+`;
+
+describe("parseRobotsTxt", () => {
+  it("selects the groups of the longest product token in the user agent", () => {
+    expect(parseRobotsTxt(ROBOTS_TXT, "Mozilla/5.0 (compatible; a11ypagechecker/1.0)")).toEqual({
+      crawlDelay: 0.5,
+      rules: [
+        { allow: false, pattern: "/search?" },
+        { allow: false, pattern: "/*.pdf$" },
+        { allow: true, pattern: "/private/public" },
+        { allow: false, pattern: "/private" },
+      ],
+    });
+    expect(parseRobotsTxt(ROBOTS_TXT, "A11yPageChecker-Beta/2.0").rules).toEqual([{ allow: false, pattern: "/" }]);
+  });
+
+  it("falls back to the wildcard group", () => {
+    expect(parseRobotsTxt(ROBOTS_TXT)).toEqual({ crawlDelay: 5, rules: [{ allow: false, pattern: "/admin" }] });
+    expect(parseRobotsTxt("User-agent: *\nDisallow:\n")).toEqual({ rules: [] });
+  });
+});
+
+describe("isAllowedByRobots", () => {
+  const rules = parseRobotsTxt(ROBOTS_TXT, "A11yPageChecker");
+
+  it("applies the longest matching rule to the path and query", () => {
+    expect(isAllowedByRobots(rules, "https://example.com/")).toBe(true);
+    expect(isAllowedByRobots(rules, "https://example.com/search?q=a11y")).toBe(false);
+    expect(isAllowedByRobots(rules, "https://example.com/search")).toBe(true);
+    expect(isAllowedByRobots(rules, "https://example.com/private/team")).toBe(false);
+    expect(isAllowedByRobots(rules, "https://example.com/private/public/contact")).toBe(true);
+  });
+
+  it("supports wildcards and end anchors", () => {
+    expect(isAllowedByRobots(rules, "https://example.com/files/report.pdf")).toBe(false);
+    expect(isAllowedByRobots(rules, "https://example.com/files/report.pdf.html")).toBe(true);
+  });
+
+  it("lets Allow win a tie", () => {
+    const tie = parseRobotsTxt("User-agent: *\nDisallow: /page\nAllow: /page\n");
+
+    expect(isAllowedByRobots(tie, "https://example.com/page")).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import { toWildcardSource } from "../wildcard/index.ts";
+
+/** The rules of the robots.txt group that applies to one user agent. */
+export interface RobotsRules {
+  rules: Array<{ allow: boolean; pattern: string }>;
+  /** Seconds to wait between requests, from `Crawl-delay` */
+  crawlDelay?: number;
+}
+
+interface RobotsGroup extends RobotsRules {
+  agents: string[];
+}
+
+/**
+ * Parses robots.txt and keeps the groups that apply to `userAgent`: the groups naming the
+ * longest product token contained in it, or the `*` groups when none does.
+ */
+export function parseRobotsTxt(content: string, userAgent = ""): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let group: RobotsGroup | undefined;
+  let readingAgents = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).replace(/#.*/, "").trim();
+
+    if (field === "user-agent") {
+      if (!group || !readingAgents) {
+        group = { agents: [], rules: [] };
+        groups.push(group);
+      }
+
+      group.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+
+    readingAgents = false;
+
+    if (!group) {
+      continue;
+    }
+
+    if ((field === "allow" || field === "disallow") && value.length > 0) {
+      group.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay" && Number.isFinite(Number.parseFloat(value))) {
+      group.crawlDelay ??= Math.max(0, Number.parseFloat(value));
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const matchLength = (agents: string[]) =>
+    Math.max(-1, ...agents.filter((agent) => agent !== "*" && token.includes(agent)).map((agent) => agent.length));
+  const longest = Math.max(-1, ...groups.map(({ agents }) => matchLength(agents)));
+  const selected = groups.filter(({ agents }) =>
+    longest === -1 ? agents.includes("*") : matchLength(agents) === longest,
+  );
+  const crawlDelay = selected.find((candidate) => candidate.crawlDelay !== undefined)?.crawlDelay;
+
+  return {
+    rules: selected.flatMap(({ rules }) => rules),
+    ...(crawlDelay === undefined ? {} : { crawlDelay }),
+  };
+}
+
+/** Applies the longest matching rule to the path and query of `url`; `Allow` wins ties. */
+export function isAllowedByRobots({ rules }: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = `${pathname}${search}`;
+  let match: { allow: boolean; length: number } | undefined;
+
+  for (const { allow, pattern } of rules) {
+    if (!toPatternRegExp(pattern).test(path)) {
+      continue;
+    }
+
+    if (!match || pattern.length > match.length || (pattern.length === match.length && allow)) {
+      match = { allow, length: pattern.length };
+    }
+  }
+
+  return match?.allow ?? true;
+}
+
+function toPatternRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = toWildcardSource(anchored ? pattern.slice(0, -1) : pattern);
+
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
@@ -0,0 +1,118 @@
+import type { Page } from "@playwright/test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Finding } from "@/types";
+import { captureScreenshots } from "./index";
+
+type Box = { height: number; width: number; x: number; y: number };
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map((directory) => rm(directory, { force: true, recursive: true })));
+});
+
+function createPage(boxes: Record<string, Box | null>) {
+  const highlighted = new Set<string>();
+  const createLocator = (selector: string, frame = ""): Record<string, unknown> => {
+    const element = {
+      removeAttribute: () => highlighted.delete(selector),
+      setAttribute: () => highlighted.add(selector),
+      tagName: selector.startsWith("iframe") ? "IFRAME" : "DIV",
+    };
+    const locator = {
+      boundingBox: vi.fn(async () => boxes[`${frame}${selector}`] ?? null),
+      contentFrame: () => ({ locator: (child: string) => createLocator(child, `${selector} >> `) }),
+      evaluate: vi.fn(async (callback: (element: unknown, arg: unknown) => unknown, arg?: unknown) =>
+        callback(element, arg),
+      ),
+      first: () => locator,
+      locator: (child: string) => createLocator(child, frame),
+    };
+
+    return locator;
+  };
+  const page = {
+    evaluate: vi.fn().mockResolvedValue({ x: 0, y: 100 }),
+    locator: vi.fn((selector: string) => createLocator(selector)),
+    screenshot: vi.fn(async ({ clip }: { clip?: Box }) =>
+      Buffer.from(clip ? `clip:${[...highlighted].join(",")}` : "page"),
+    ),
+  };
+
+  return { highlighted, page };
+}
+
+function createFinding(targets: string[][]): Finding {
+  return {
+    description: "Buttons must have discernible text",
+    help: "Buttons must have discernible text",
+    helpUrl: "https://dequeuniversity.com/rules/axe/button-name",
+    id: "button-name",
+    impact: "critical",
+    nodes: targets.map((target) => ({ html: "<button></button>", target })),
+    tags: ["wcag2a"],
+  };
+}
+
+function toDataUrl(content: string): string {
+  return `data:image/png;base64,${Buffer.from(content).toString("base64")}`;
+}
+
+describe("captureScreenshots", () => {
+  it("embeds the page and a highlighted clip of each visible node as data URLs", async () => {
+    const { highlighted, page } = createPage({
+      "#menu": { height: 40, width: 100, x: 10, y: 20 },
+      "iframe#checkout >> button": { height: 30, width: 80, x: 200, y: 300 },
+    });
+    const finding = createFinding([["#menu"], ["#hidden"], ["iframe#checkout", "button"]]);
+
+    const result = await captureScreenshots(page as unknown as Page, "https://example.com/", [finding], {});
+
+    expect(result).toEqual({
+      findings: [
+        {
+          ...finding,
+          nodes: [
+            { ...finding.nodes[0], screenshot: toDataUrl("clip:#menu") },
+            finding.nodes[1],
+            { ...finding.nodes[2], screenshot: toDataUrl("clip:button") },
+          ],
+        },
+      ],
+      screenshot: toDataUrl("page"),
+    });
+    expect(page.screenshot).toHaveBeenCalledWith({
+      animations: "disabled",
+      clip: { height: 72, width: 132, x: 0, y: 104 },
+      fullPage: true,
+      style: expect.stringContaining("outline"),
+    });
+    expect(highlighted.size).toBe(0);
+  });
+
+  it("writes PNG files named after the page to the output directory", async () => {
+    const outputDir = await mkdtemp(path.join(tmpdir(), "a11y-screenshots-"));
+    directories.push(outputDir);
+    const { page } = createPage({ "#menu": { height: 40, width: 100, x: 10, y: 20 } });
+
+    const result = await captureScreenshots(
+      page as unknown as Page,
+      "https://example.com/products/shoes",
+      [createFinding([["#menu"]])],
+      { outputDir, padding: 0 },
+    );
+    const clip = result.findings[0]?.nodes[0]?.screenshot ?? "";
+
+    expect(path.dirname(result.screenshot ?? "")).toBe(outputDir);
+    expect(path.basename(result.screenshot ?? "")).toMatch(/^example-com-products-shoes-[0-9a-f]{8}-page\.png$/);
+    expect(path.basename(clip)).toMatch(/^example-com-products-shoes-[0-9a-f]{8}-1-1\.png$/);
+    await expect(readFile(clip, "utf8")).resolves.toBe("clip:#menu");
+    expect(page.screenshot).toHaveBeenCalledWith(
+      expect.objectContaining({ clip: { height: 40, width: 100, x: 10, y: 120 } }),
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import type { Locator, Page } from "@playwright/test";
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { Finding, FindingNode, ScreenshotOptions } from "@/types";
+
+const DEFAULT_PADDING = 16;
+const NODE_TIMEOUT = 2_000;
+const MAX_NAME_LENGTH = 60;
+const HIGHLIGHT_ATTRIBUTE = "data-a11y-page-checker-highlight";
+const HIGHLIGHT_STYLE = `[${HIGHLIGHT_ATTRIBUTE}] { outline: 3px solid #d6336c !important; outline-offset: 2px !important; }`;
+
+/**
+ * Captures a full-page screenshot and a highlighted clip around every finding node. Images are
+ * written to `options.outputDir`, or returned as PNG data URLs when it is not set. Nodes that
+ * cannot be located or have no visible box, and pages too large to capture, get no image.
+ */
+export async function captureScreenshots(
+  page: Page,
+  url: string,
+  findings: Finding[],
+  options: ScreenshotOptions,
+): Promise<{ findings: Finding[]; screenshot?: string }> {
+  const padding = options.padding ?? DEFAULT_PADDING;
+  const prefix = `${toFileName(url)}-${randomUUID().slice(0, 8)}`;
+  const save = (image: Buffer, name: string) => saveImage(image, `${prefix}-${name}.png`, options.outputDir);
+  const pageImage = await page.screenshot({ animations: "disabled", fullPage: true }).catch(() => undefined);
+  const captured: Finding[] = [];
+
+  for (const [findingIndex, finding] of findings.entries()) {
+    const nodes: FindingNode[] = [];
+
+    for (const [nodeIndex, node] of finding.nodes.entries()) {
+      const image = await captureNode(page, node, padding).catch(() => undefined);
+
+      nodes.push(image ? { ...node, screenshot: await save(image, `${findingIndex + 1}-${nodeIndex + 1}`) } : node);
+    }
+
+    captured.push({ ...finding, nodes });
+  }
+
+  return {
+    findings: captured,
+    ...(pageImage ? { screenshot: await save(pageImage, "page") } : {}),
+  };
+}
+
+async function captureNode(page: Page, { target }: FindingNode, padding: number): Promise<Buffer | undefined> {
+  const locator = await locateNode(page, target);
+  const box = await locator?.boundingBox({ timeout: NODE_TIMEOUT });
+
+  if (!locator || !box || box.width === 0 || box.height === 0) {
+    return undefined;
+  }
+
+  await locator.evaluate((element, name) => element.setAttribute(name, ""), HIGHLIGHT_ATTRIBUTE);
+
+  try {
+    const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+
+    return await page.screenshot({
+      animations: "disabled",
+      clip: {
+        height: box.height + padding * 2,
+        width: box.width + padding * 2,
+        x: Math.max(0, box.x + scroll.x - padding),
+        y: Math.max(0, box.y + scroll.y - padding),
+      },
+      fullPage: true,
+      style: HIGHLIGHT_STYLE,
+    });
+  } finally {
+    await locator.evaluate((element, name) => element.removeAttribute(name), HIGHLIGHT_ATTRIBUTE);
+  }
+}
+
+/** Follows an axe target into iframes. Other selector chains are shadow hosts, which locators pierce. */
+async function locateNode(page: Page, target: string[]): Promise<Locator | undefined> {
+  let locator: Locator | undefined;
+
+  for (const selector of target) {
+    if (!locator) {
+      locator = page.locator(selector).first();
+      continue;
+    }
+
+    const isFrame = await locator.evaluate((element) => element.tagName === "IFRAME" || element.tagName === "FRAME");
+
+    locator = (isFrame ? locator.contentFrame() : locator).locator(selector).first();
+  }
+
+  return locator;
+}
+
+async function saveImage(image: Buffer, fileName: string, outputDir?: string): Promise<string> {
+  if (outputDir === undefined) {
+    return `data:image/png;base64,${image.toString("base64")}`;
+  }
+
+  const filePath = path.resolve(outputDir, fileName);
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, image);
+
+  return filePath;
+}
+
+function toFileName(url: string): string {
+  const { hostname, pathname } = new URL(url);
+
+  return `${hostname}${pathname}`
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, MAX_NAME_LENGTH);
+}
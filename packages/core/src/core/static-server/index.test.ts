@@ -0,0 +1,77 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { StaticFileServer } from "./index";
+
+const temporaryDirectories: string[] = [];
+const servers: StaticFileServer[] = [];
+
+async function createSite(): Promise<string> {
+  const directory = await mkdtemp(join(tmpdir(), "static-server-"));
+  temporaryDirectories.push(directory);
+  await mkdir(join(directory, "site", "about"), { recursive: true });
+  await writeFile(join(directory, "secret.txt"), "outside the root");
+  await writeFile(join(directory, "site", "index.html"), "<!doctype html><title>Home</title>");
+  await writeFile(join(directory, "site", "about", "index.html"), "<!doctype html><title>About</title>");
+  await writeFile(join(directory, "site", "styles.css"), "body { color: black; }");
+  return join(directory, "site");
+}
+
+async function startServer(root: string): Promise<string> {
+  const server = new StaticFileServer(root);
+  servers.push(server);
+  return server.start();
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((server) => server.close()));
+  await Promise.all(temporaryDirectories.splice(0).map((directory) => rm(directory, { force: true, recursive: true })));
+});
+
+describe("StaticFileServer", () => {
+  it("serves files and directory indexes from an ephemeral loopback port", async () => {
+    const baseUrl = await startServer(await createSite());
+
+    expect(baseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+
+    const stylesheet = await fetch(new URL("styles.css", baseUrl));
+    const about = await fetch(new URL("about/", baseUrl));
+
+    expect(stylesheet.headers.get("content-type")).toBe("text/css; charset=utf-8");
+    await expect(stylesheet.text()).resolves.toBe("body { color: black; }");
+    expect(about.headers.get("content-type")).toBe("text/html; charset=utf-8");
+    await expect(about.text()).resolves.toContain("<title>About</title>");
+  });
+
+  it("refuses paths outside the root, missing files, and non-read methods", async () => {
+    const baseUrl = await startServer(await createSite());
+
+    expect((await fetch(new URL("..%2fsecret.txt", baseUrl))).status).toBe(404);
+    expect((await fetch(new URL("missing.html", baseUrl))).status).toBe(404);
+    expect((await fetch(new URL("index.html", baseUrl), { method: "POST" })).status).toBe(405);
+  });
+
+  it("refuses symbolic links that lead outside the root", async () => {
+    const root = await createSite();
+    await symlink(join(root, "..", "secret.txt"), join(root, "secret.txt"));
+    await symlink(join(root, ".."), join(root, "parent"), "dir");
+    await symlink(join(root, "styles.css"), join(root, "linked.css"));
+    const baseUrl = await startServer(root);
+
+    expect((await fetch(new URL("secret.txt", baseUrl))).status).toBe(404);
+    expect((await fetch(new URL("parent/secret.txt", baseUrl))).status).toBe(404);
+    expect((await fetch(new URL("linked.css", baseUrl))).status).toBe(200);
+  });
+
+  it("stops accepting connections once closed", async () => {
+    const server = new StaticFileServer(await createSite());
+    const baseUrl = await server.start();
+
+    await server.close();
+
+    await expect(fetch(baseUrl)).rejects.toThrow();
+    await expect(server.close()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import { createReadStream } from "node:fs";
+import { realpath, stat } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+
+const LOOPBACK_HOST = "127.0.0.1";
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+const CONTENT_TYPES: Record<string, string> = {
+  ".avif": "image/avif",
+  ".css": "text/css; charset=utf-8",
+  ".gif": "image/gif",
+  ".htm": "text/html; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".ico": "image/x-icon",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".js": "text/javascript; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".mp4": "video/mp4",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".ttf": "font/ttf",
+  ".txt": "text/plain; charset=utf-8",
+  ".wasm": "application/wasm",
+  ".webm": "video/webm",
+  ".webp": "image/webp",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".xml": "application/xml; charset=utf-8",
+};
+
+/** Serves a directory read-only over an ephemeral loopback port so relative assets resolve during scans. */
+export class StaticFileServer {
+  private server?: Server;
+
+  constructor(private readonly root: string) {}
+
+  /** Starts listening and returns the base URL, with a trailing slash, that maps to the root directory. */
+  async start(): Promise<string> {
+    if (this.server) {
+      throw new Error("The static file server is already running.");
+    }
+
+    const server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, LOOPBACK_HOST, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const { port } = server.address() as AddressInfo;
+
+    return `http://${LOOPBACK_HOST}:${port}/`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    const filePath = await this.resolveFile(request.url ?? "/");
+
+    if (!filePath) {
+      response.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" }).end("Not found");
+      return;
+    }
+
+    response.writeHead(200, {
+      "Cache-Control": "no-store",
+      "Content-Type": CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? DEFAULT_CONTENT_TYPE,
+    });
+
+    if (request.method === "HEAD") {
+      response.end();
+      return;
+    }
+
+    createReadStream(filePath)
+      .on("error", () => response.destroy())
+      .pipe(response);
+  }
+
+  private async resolveFile(requestUrl: string): Promise<string | undefined> {
+    let pathname: string;
+
+    try {
+      pathname = decodeURIComponent(new URL(requestUrl, "http://localhost").pathname);
+    } catch {
+      return undefined;
+    }
+
+    const candidate = path.resolve(this.root, `.${pathname}`);
+
+    if (!isWithin(this.root, candidate)) {
+      return undefined;
+    }
+
+    try {
+      const stats = await stat(candidate);
+      const filePath = stats.isDirectory() ? path.join(candidate, "index.html") : candidate;
+      // Symbolic links inside the root may point anywhere, so the resolved file is checked again.
+      const [realRoot, realFile] = await Promise.all([realpath(this.root), realpath(filePath)]);
+
+      return isWithin(realRoot, realFile) && (await stat(realFile)).isFile() ? realFile : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function isWithin(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
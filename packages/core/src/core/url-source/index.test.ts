@@ -1,3 +1,7 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gzipSync } from "node:zlib";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 const playwrightMocks = vi.hoisted(() => ({ launch: vi.fn() }));
@@ -8,11 +12,14 @@ vi.mock("@playwright/test", () => ({
 
 import { UrlSource } from "./index";
 
-function mockResponse(content: string, status = 200): Response {
+function mockResponse(content: string | Buffer, status = 200): Response {
+  const body = Buffer.from(content);
+
   return {
+    arrayBuffer: vi.fn().mockResolvedValue(body.buffer.slice(body.byteOffset, body.byteOffset + body.length)),
     ok: status >= 200 && status < 300,
     status,
-    text: vi.fn().mockResolvedValue(content),
+    text: vi.fn().mockResolvedValue(body.toString("utf8")),
   } as unknown as Response;
 }
 
@@ -44,6 +51,98 @@ describe("UrlSource", () => {
     ).resolves.toEqual([{ url: "https://example.com/contact" }]);
   });
 
+  it("follows nested sitemap indexes and carries entry metadata into targets", async () => {
+    const sitemaps: Record<string, string | Buffer> = {
+      "https://example.com/sitemap.xml": `<?xml version="1.0" encoding="UTF-8"?>
+        <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <sitemap><loc>https://example.com/sitemaps/pages.xml.gz</loc></sitemap>
+          <sitemap><loc>/sitemaps/nested.xml</loc></sitemap>
+        </sitemapindex>`,
+      "https://example.com/sitemaps/nested.xml": `<sitemapindex>
+          <sitemap><loc>https://example.com/sitemaps/news.txt</loc></sitemap>
+          <sitemap><loc>https://example.com/sitemap.xml</loc></sitemap>
+        </sitemapindex>`,
+      "https://example.com/sitemaps/news.txt": "https://example.com/news/one\r\n\nhttps://example.com/news/two\n",
+      "https://example.com/sitemaps/pages.xml.gz": gzipSync(`<urlset>
+          <url>
+            <loc> https://example.com/about </loc>
+            <lastmod>2026-09-30</lastmod>
+            <changefreq>monthly</changefreq>
+            <priority>0.8</priority>
+          </url>
+          <url><loc>https://example.com/contact</loc></url>
+        </urlset>`),
+    };
+    vi.mocked(fetch).mockImplementation(async (url) => mockResponse(sitemaps[String(url)] ?? "", 200));
+    const source = new UrlSource();
+
+    await expect(
+      source.resolve({ source: { type: "sitemap", url: "https://example.com/sitemap.xml" } }),
+    ).resolves.toEqual([
+      {
+        sitemap: { changeFrequency: "monthly", lastModified: "2026-09-30", priority: 0.8 },
+        url: "https://example.com/about",
+      },
+      { url: "https://example.com/contact" },
+      { url: "https://example.com/news/one" },
+      { url: "https://example.com/news/two" },
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("stops following sitemap indexes at the depth and count caps", async () => {
+    vi.mocked(fetch).mockImplementation(async (url) => {
+      const depth = Number(/(\d+)\.xml$/.exec(String(url))?.[1] ?? 0);
+
+      return mockResponse(
+        `<sitemapindex><sitemap><loc>https://example.com/sitemap-${depth + 1}.xml</loc></sitemap></sitemapindex>`,
+      );
+    });
+    const source = new UrlSource();
+
+    await expect(
+      source.resolve({ source: { maxDepth: 2, type: "sitemap", url: "https://example.com/sitemap-0.xml" } }),
+    ).resolves.toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    vi.mocked(fetch).mockClear();
+    await source.resolve({ source: { maxSitemaps: 2, type: "sitemap", url: "https://example.com/sitemap-0.xml" } });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("passes the abort signal to sitemap requests and stops fetching nested sitemaps when it aborts", async () => {
+    const controller = new AbortController();
+
+    vi.mocked(fetch).mockImplementation(async (url, init) => {
+      if (String(url).endsWith("/sitemap.xml")) {
+        return mockResponse(`<sitemapindex>
+            <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+            <sitemap><loc>https://example.com/posts.xml</loc></sitemap>
+          </sitemapindex>`);
+      }
+
+      controller.abort();
+      throw init?.signal?.reason;
+    });
+
+    await expect(
+      new UrlSource().resolve(
+        { source: { type: "sitemap", url: "https://example.com/sitemap.xml" } },
+        { signal: controller.signal },
+      ),
+    ).resolves.toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenCalledWith("https://example.com/pages.xml", { signal: controller.signal });
+  });
+
+  it("rejects text sitemaps with lines that are not URLs", async () => {
+    vi.mocked(fetch).mockResolvedValue(mockResponse("https://example.com/\n/relative/path\n"));
+
+    await expect(
+      new UrlSource().resolve({ source: { type: "sitemap", url: "https://example.com/sitemap.txt" } }),
+    ).rejects.toThrow('Invalid text sitemap format: "/relative/path" is not an absolute URL.');
+  });
+
   it("overlays plan targets, appends target-only URLs, and applies path filters", async () => {
     const source = new UrlSource();
 
@@ -78,6 +177,170 @@ describe("UrlSource", () => {
     ]);
   });
 
+  it("matches query-string rules in include and exclude patterns", async () => {
+    await expect(
+      new UrlSource().resolve({
+        exclude: ["?utm_source", "/search?sort=price*&page"],
+        source: {
+          targets: [
+            "https://example.com/?utm_source=newsletter",
+            "https://example.com/search?q=shoes&sort=price-asc&page=2",
+            "https://example.com/search?q=shoes&sort=price-asc",
+            "https://example.com/search?q=shoes&sort=name&page=2",
+          ],
+          type: "urls",
+        },
+      }),
+    ).resolves.toEqual([
+      { url: "https://example.com/search?q=shoes&sort=price-asc" },
+      { url: "https://example.com/search?q=shoes&sort=name&page=2" },
+    ]);
+    await expect(
+      new UrlSource().resolve({
+        include: ["/search?q=*"],
+        source: { targets: ["https://example.com/search?q=shoes", "https://example.com/search"], type: "urls" },
+      }),
+    ).resolves.toEqual([{ url: "https://example.com/search?q=shoes" }]);
+  });
+
+  it("spends the crawl page budget only on included pages", async () => {
+    const links: Record<string, string[]> = {
+      "https://example.com/": ["/blog/one", "/blog/two", "/docs"],
+      "https://example.com/blog/one": ["/docs/guide"],
+    };
+    const visited: string[] = [];
+    const context = {
+      close: vi.fn().mockResolvedValue(undefined),
+      newPage: vi.fn(async () => {
+        let current = "";
+
+        return {
+          close: vi.fn().mockResolvedValue(undefined),
+          evaluate: vi.fn(async () => links[current] ?? []),
+          goto: vi.fn(async (url: string) => {
+            current = url;
+            visited.push(url);
+            return null;
+          }),
+        };
+      }),
+    };
+    const browser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn().mockResolvedValue(context) };
+    const plan = (traverseExcluded?: boolean) => ({
+      exclude: ["/blog/**"],
+      options: { maxConcurrency: 1 },
+      source: { maxPages: 3, seedUrl: "https://example.com", traverseExcluded, type: "crawl" as const },
+    });
+
+    playwrightMocks.launch.mockResolvedValue(browser);
+
+    await expect(new UrlSource().resolve(plan())).resolves.toEqual([
+      { url: "https://example.com/" },
+      { url: "https://example.com/docs" },
+      { url: "https://example.com/docs/guide" },
+    ]);
+    expect(visited).toEqual([
+      "https://example.com/",
+      "https://example.com/blog/one",
+      "https://example.com/blog/two",
+      "https://example.com/docs",
+      "https://example.com/docs/guide",
+    ]);
+
+    visited.length = 0;
+    await expect(new UrlSource().resolve(plan(false))).resolves.toEqual([
+      { url: "https://example.com/" },
+      { url: "https://example.com/docs" },
+    ]);
+    expect(visited).toEqual(["https://example.com/", "https://example.com/docs"]);
+  });
+
+  it("canonicalizes crawled links, rel=canonical URLs and plan targets consistently", async () => {
+    const pages = [
+      { canonical: null, links: ["/products?utm_source=x&page=2", "/products/?page=2&utm_source=y", "/print/item"] },
+      { canonical: null, links: [] },
+      { canonical: "https://example.com/item/", links: [] },
+    ].map(({ canonical, links }) => ({
+      close: vi.fn().mockResolvedValue(undefined),
+      evaluate: vi.fn().mockResolvedValueOnce(links).mockResolvedValueOnce(canonical),
+      goto: vi.fn().mockResolvedValue(null),
+    }));
+    const context = { close: vi.fn().mockResolvedValue(undefined), newPage: vi.fn() };
+    const browser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn().mockResolvedValue(context) };
+
+    pages.forEach((page) => context.newPage.mockResolvedValueOnce(page));
+    playwrightMocks.launch.mockResolvedValue(browser);
+
+    await expect(
+      new UrlSource().resolve({
+        canonicalization: { relCanonical: true, sortQuery: true, stripParams: ["utm_*"], trailingSlash: "remove" },
+        options: { maxConcurrency: 1 },
+        source: { seedUrl: "https://example.com/", type: "crawl" },
+        targets: [{ name: "Item", url: "https://example.com/item/?utm_campaign=spring" }],
+      }),
+    ).resolves.toEqual([
+      { url: "https://example.com/" },
+      { url: "https://example.com/products?page=2" },
+      { name: "Item", url: "https://example.com/item" },
+    ]);
+    expect(pages[1]?.goto).toHaveBeenCalledWith("https://example.com/products?page=2", {
+      waitUntil: "domcontentloaded",
+    });
+    expect(context.newPage).toHaveBeenCalledTimes(3);
+  });
+
+  it("follows links to allowed hosts and origins from several seeds", async () => {
+    const links: Record<string, string[]> = {
+      "https://help.example.com/": ["https://cdn.example.net/guide", "https://evil-example.com/"],
+      "https://www.example.com/": [
+        "https://shop.example.com/cart",
+        "http://shop.example.com/insecure",
+        "https://partner.example.org/",
+        "https://docs.partner.example.org:8443/",
+      ],
+    };
+    const visited: string[] = [];
+    const context = {
+      close: vi.fn().mockResolvedValue(undefined),
+      newPage: vi.fn(async () => {
+        let current = "";
+
+        return {
+          close: vi.fn().mockResolvedValue(undefined),
+          evaluate: vi.fn(async () => links[current] ?? []),
+          goto: vi.fn(async (url: string) => {
+            current = url;
+            visited.push(url);
+            return null;
+          }),
+        };
+      }),
+    };
+    const browser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn().mockResolvedValue(context) };
+
+    playwrightMocks.launch.mockResolvedValue(browser);
+
+    await expect(
+      new UrlSource().resolve({
+        options: { maxConcurrency: 1 },
+        source: {
+          allowedHosts: ["*.example.com"],
+          allowedOrigins: ["https://*.partner.example.org:8443"],
+          seedUrl: "https://www.example.com",
+          seedUrls: ["https://help.example.com", "https://www.example.com/"],
+          type: "crawl",
+        },
+      }),
+    ).resolves.toEqual([
+      { url: "https://www.example.com/" },
+      { url: "https://help.example.com/" },
+      { url: "https://shop.example.com/cart" },
+      { url: "http://shop.example.com/insecure" },
+      { url: "https://docs.partner.example.org:8443/" },
+    ]);
+    expect(visited).toHaveLength(5);
+  });
+
   it("crawls same-origin links within depth and page limits", async () => {
     const seedPage = {
       close: vi.fn().mockResolvedValue(undefined),
@@ -121,9 +384,177 @@ describe("UrlSource", () => {
     expect(error).not.toHaveBeenCalled();
   });
 
-  it("rejects unsupported file sources", async () => {
-    await expect(new UrlSource().resolve({ source: { glob: ["dist/**/*.html"], type: "files" } })).rejects.toThrow(
-      "The files source is not supported yet.",
+  it("crawls through a visitor without launching a browser and reports targets as they are found", async () => {
+    const links: Record<string, string[]> = {
+      "https://example.com/": ["/about", "/private"],
+      "https://example.com/private": ["/team"],
+    };
+    const visits: string[] = [];
+    const found: string[] = [];
+
+    const targets = await new UrlSource().crawl(
+      {
+        exclude: ["/private"],
+        options: { maxConcurrency: 1 },
+        source: { seedUrl: "https://example.com", type: "crawl" },
+        targets: [{ actions: [{ selector: "#menu", type: "click" }], url: "https://example.com/about" }],
+      },
+      {
+        onTarget: (target, { wanted }) => found.push(`${wanted}:${target.url}`),
+        visit: async ({ target, wanted }, read) => {
+          visits.push(`${wanted}:${target.url}:${target.actions?.length ?? 0}`);
+          return read({ evaluate: vi.fn().mockResolvedValue(links[target.url] ?? []) } as never);
+        },
+      },
+    );
+
+    expect(playwrightMocks.launch).not.toHaveBeenCalled();
+    expect(visits).toEqual([
+      "true:https://example.com/:0",
+      "true:https://example.com/about:1",
+      "false:https://example.com/private:0",
+      "true:https://example.com/team:0",
+    ]);
+    expect(found).toEqual([
+      "true:https://example.com/",
+      "true:https://example.com/about",
+      "true:https://example.com/team",
+    ]);
+    expect(targets).toEqual([
+      { url: "https://example.com/" },
+      { actions: [{ selector: "#menu", type: "click" }], url: "https://example.com/about" },
+      { url: "https://example.com/team" },
+    ]);
+  });
+
+  it("only crawls crawl sources", async () => {
+    await expect(
+      new UrlSource().crawl({ source: { targets: [], type: "urls" } }, { visit: vi.fn() }),
+    ).rejects.toThrow("Cannot crawl a urls source.");
+  });
+
+  it("skips URLs robots.txt disallows for the configured user agent", async () => {
+    const pages = [["/private/report", "/about"], ["/blog"]].map((hrefs) => ({
+      close: vi.fn().mockResolvedValue(undefined),
+      evaluate: vi.fn().mockResolvedValue(hrefs),
+      goto: vi.fn().mockResolvedValue(null),
+    }));
+    const context = { close: vi.fn().mockResolvedValue(undefined), newPage: vi.fn() };
+    const browser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn().mockResolvedValue(context) };
+
+    pages.forEach((page) => context.newPage.mockResolvedValueOnce(page));
+    playwrightMocks.launch.mockResolvedValue(browser);
+    vi.mocked(fetch).mockResolvedValue(
+      mockResponse("User-agent: *\nDisallow: /\n\nUser-agent: A11yPageChecker\nDisallow: /private\nDisallow: /blog\n"),
+    );
+
+    await expect(
+      new UrlSource().resolve({
+        options: {
+          maxConcurrency: 1,
+          politeness: { respectRobotsTxt: true, userAgent: "Mozilla/5.0 A11yPageChecker/1.0" },
+        },
+        source: { seedUrl: "https://example.com", type: "crawl" },
+        targets: [{ url: "https://example.com/blog" }],
+      }),
+    ).resolves.toEqual([{ url: "https://example.com/" }, { url: "https://example.com/about" }]);
+
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(fetch).toHaveBeenCalledWith(new URL("https://example.com/robots.txt"), {
+      headers: { "User-Agent": "Mozilla/5.0 A11yPageChecker/1.0" },
+    });
+    expect(browser.newContext).toHaveBeenCalledWith({
+      userAgent: "Mozilla/5.0 A11yPageChecker/1.0",
+      viewport: { height: 800, width: 1280 },
+    });
+    expect(context.newPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("authenticates the crawl context with the plan's auth settings", async () => {
+    const page = {
+      close: vi.fn().mockResolvedValue(undefined),
+      evaluate: vi.fn().mockResolvedValue([]),
+      goto: vi.fn().mockResolvedValue(null),
+    };
+    const context = { close: vi.fn().mockResolvedValue(undefined), newPage: vi.fn().mockResolvedValue(page) };
+    const browser = {
+      close: vi.fn().mockResolvedValue(undefined),
+      newContext: vi.fn().mockResolvedValue(context),
+    };
+
+    playwrightMocks.launch.mockResolvedValue(browser);
+
+    await new UrlSource().resolve({
+      auth: { headers: { "X-Preview": "on" }, storageState: "state.json" },
+      source: { maxPages: 1, seedUrl: "https://example.com", type: "crawl" },
+    });
+
+    expect(browser.newContext).toHaveBeenCalledWith({
+      extraHTTPHeaders: { "X-Preview": "on" },
+      storageState: "state.json",
+      viewport: { height: 800, width: 1280 },
+    });
+  });
+
+  it("serves HTML files matched by globs and stops serving them on close", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "url-source-files-"));
+    const source = new UrlSource();
+
+    try {
+      await mkdir(join(directory, "dist", "about us"), { recursive: true });
+      await writeFile(join(directory, "dist", "index.html"), "<title>Home</title>");
+      await writeFile(join(directory, "dist", "about us", "index.html"), "<title>About</title>");
+      await writeFile(join(directory, "dist", "styles.css"), "body {}");
+      await writeFile(join(directory, "draft.html"), "<title>Draft</title>");
+
+      const targets = await source.resolve({
+        source: { glob: [join(directory, "dist", "**", "*.html")], type: "files" },
+      });
+
+      expect(targets).toEqual([
+        { url: expect.stringMatching(/^http:\/\/127\.0\.0\.1:\d+\/about%20us\/index\.html$/) },
+        { url: expect.stringMatching(/^http:\/\/127\.0\.0\.1:\d+\/index\.html$/) },
+      ]);
+    } finally {
+      await source.close();
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  it("only enters node_modules when a glob names it", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "url-source-files-"));
+    const source = new UrlSource();
+
+    try {
+      await mkdir(join(directory, "docs"), { recursive: true });
+      await mkdir(join(directory, "node_modules", "pkg"), { recursive: true });
+      await writeFile(join(directory, "docs", "index.html"), "<title>Docs</title>");
+      await writeFile(join(directory, "node_modules", "pkg", "index.html"), "<title>Package</title>");
+
+      const targets = await source.resolve({ source: { glob: [join(directory, "**", "*.html")], type: "files" } });
+      const named = await source.resolve({
+        source: { glob: [join(directory, "node_modules", "**", "*.html")], root: directory, type: "files" },
+      });
+
+      expect(targets).toEqual([{ url: expect.stringMatching(/\/docs\/index\.html$/) }]);
+      expect(named).toEqual([{ url: expect.stringMatching(/\/node_modules\/pkg\/index\.html$/) }]);
+    } finally {
+      await source.close();
+      await rm(directory, { force: true, recursive: true });
+    }
+  });
+
+  it("requires a root when the globs share no directory", async () => {
+    await expect(
+      new UrlSource().resolve({ source: { glob: ["/srv/site/*.html", "/opt/docs/*.html"], type: "files" } }),
+    ).rejects.toThrow(
+      "Files source globs share no directory: /srv/site/*.html, /opt/docs/*.html. Set root to serve them.",
     );
   });
+
+  it("rejects file sources whose root cannot be read", async () => {
+    await expect(
+      new UrlSource().resolve({ source: { glob: ["*.html"], root: "/does/not/exist", type: "files" } }),
+    ).rejects.toThrow("Failed to read files source root: /does/not/exist");
+  });
 });
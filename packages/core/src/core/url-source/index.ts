@@ -1,11 +1,31 @@
-import { chromium, type BrowserContext, type Page } from "@playwright/test";
+import type { BrowserContext, Page } from "@playwright/test";
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { gunzip } from "node:zlib";
 import picomatch from "picomatch";
 import { Parser } from "xml2js";
 
-import type { InputSource, PageTarget, ScanOptions, ScanPlan } from "@/types";
+import { AuthSession } from "../auth/index.ts";
+import { launchBrowser, resolveBrowsers } from "../browsers/index.ts";
+import { canonicalizeUrl } from "../canonical/index.ts";
+import { Politeness } from "../politeness/index.ts";
+import { StaticFileServer } from "../static-server/index.ts";
+import { toWildcardSource } from "../wildcard/index.ts";
+import type {
+  CanonicalizationOptions,
+  InputSource,
+  PageTarget,
+  ScanPlan,
+  SitemapEntry,
+  SitemapMetadata,
+} from "@/types";
 
 interface JsonSitemapEntry {
   url: string;
+  lastModified?: string;
+  changeFrequency?: string;
+  priority?: number;
 }
 
 interface JsonSitemap {
@@ -16,74 +36,369 @@ interface XmlSitemap {
   urlset?: {
     url?: Array<{
       loc?: string[];
+      lastmod?: string[];
+      changefreq?: string[];
+      priority?: string[];
+    }>;
+  };
+  sitemapindex?: {
+    sitemap?: Array<{
+      loc?: string[];
     }>;
   };
 }
 
+/** The pages listed by one sitemap file, and the nested sitemaps listed by an index. */
+interface ParsedSitemap {
+  entries: SitemapEntry[];
+  sitemaps: string[];
+}
+
 interface CrawlQueueItem {
   depth: number;
   url: string;
 }
 
+interface CrawlSettings {
+  seedUrls: string[];
+  isAllowedOrigin: (url: URL) => boolean;
+  maxConcurrency: number;
+  maxDepth: number;
+  maxPages: number;
+  /** Whether pages `isWanted` rejects are still loaded to discover links */
+  traverseExcluded: boolean;
+  isWanted: (url: string) => boolean;
+  canonicalization: CanonicalizationOptions;
+  /** Plan targets by canonical URL, overlaid on the crawled pages they match */
+  planTargets: Map<string, PageTarget>;
+  politeness: Politeness;
+  signal?: AbortSignal;
+}
+
+/** The links read from a crawled page, and its URL once `rel=canonical` is applied. */
+export interface CrawledPage {
+  links: string[];
+  url: string;
+}
+
+/** A page the crawl is about to load. `wanted` is `false` for pages only loaded for their links. */
+export interface CrawlVisit {
+  depth: number;
+  target: PageTarget;
+  wanted: boolean;
+}
+
+/**
+ * Loads a crawled page and returns what `read` extracts from it once navigated, or
+ * `undefined` to skip the page. Rejections are treated like `undefined`.
+ */
+export type CrawlVisitor = (
+  visit: CrawlVisit,
+  read: (page: Page) => Promise<CrawledPage>,
+) => Promise<CrawledPage | undefined>;
+
 const DEFAULT_CRAWL_CONCURRENCY = 2;
 const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_MAX_SITEMAP_DEPTH = 3;
+const DEFAULT_MAX_SITEMAPS = 50;
+const GZIP_MAGIC = [0x1f, 0x8b];
 const DEFAULT_VIEWPORT = { height: 800, width: 1280 };
+const HTML_EXTENSIONS = [".html", ".htm"];
 
 export class UrlSource {
-  async resolve(plan: ScanPlan): Promise<PageTarget[]> {
-    const sourceTargets = await this.resolveSource(plan.source, plan.options);
-    const mergedTargets = this.mergeTargets(sourceTargets, plan.targets ?? []);
+  private readonly servers: StaticFileServer[] = [];
+
+  /**
+   * Resolves the plan into ordered targets. A `files` source starts a loopback server
+   * that keeps serving the returned URLs until `close()` is called. Aborting `signal`
+   * stops a crawl or sitemap early with the pages discovered so far. A crawl is authenticated with
+   * `session`, or with a session created from `plan.auth` when none is given. Requests
+   * follow `politeness`, or `plan.options.politeness` when none is given, and targets
+   * disallowed by robots.txt are dropped when it is respected.
+   */
+  async resolve(
+    plan: ScanPlan,
+    {
+      politeness = new Politeness(plan.options?.politeness),
+      session,
+      signal,
+    }: { politeness?: Politeness; session?: AuthSession; signal?: AbortSignal } = {},
+  ): Promise<PageTarget[]> {
+    const authSession = session ?? (plan.auth ? new AuthSession(plan.auth) : undefined);
+    const sourceTargets = await this.resolveSource(plan, politeness, signal, authSession);
 
-    return this.filterTargets(mergedTargets, plan.include ?? [], plan.exclude ?? []);
+    return this.finalizeTargets(sourceTargets, plan, politeness, signal);
   }
 
-  private async resolveSource(source: InputSource, options?: ScanOptions): Promise<PageTarget[]> {
+  /**
+   * Crawls a `crawl` source, loading each page through `visit` so callers can reuse the
+   * navigation, and reports each target to `onTarget` in discovery order. Resolves with
+   * the targets `resolve` would return, including plan targets the crawl did not reach.
+   */
+  async crawl(
+    plan: ScanPlan,
+    {
+      onTarget,
+      politeness = new Politeness(plan.options?.politeness),
+      signal,
+      visit,
+    }: {
+      onTarget?: (target: PageTarget, visit: CrawlVisit) => void;
+      politeness?: Politeness;
+      signal?: AbortSignal;
+      visit: CrawlVisitor;
+    },
+  ): Promise<PageTarget[]> {
+    const { source } = plan;
+
+    if (source.type !== "crawl") {
+      throw new Error(`Cannot crawl a ${source.type} source.`);
+    }
+
+    const settings = this.toCrawlSettings(source, plan, politeness, signal);
+    const targets = settings.maxPages > 0 ? await this.crawlTargets(settings, visit, onTarget) : [];
+
+    return this.finalizeTargets(targets, plan, politeness, signal);
+  }
+
+  /** Merges plan targets, then drops targets excluded by the plan or disallowed by robots.txt. */
+  private async finalizeTargets(
+    sourceTargets: PageTarget[],
+    plan: ScanPlan,
+    politeness: Politeness,
+    signal?: AbortSignal,
+  ): Promise<PageTarget[]> {
+    const mergedTargets = this.mergeTargets(sourceTargets, plan.targets ?? [], plan.canonicalization);
+    const targets = mergedTargets.filter((target) => this.isWanted(target.url, plan));
+    const allowed = await Promise.all(targets.map((target) => politeness.isAllowed(target.url, signal)));
+
+    return targets.filter((_target, index) => allowed[index]);
+  }
+
+  private async resolveSource(
+    plan: ScanPlan,
+    politeness: Politeness,
+    signal?: AbortSignal,
+    session?: AuthSession,
+  ): Promise<PageTarget[]> {
+    const { source } = plan;
+
     switch (source.type) {
       case "sitemap":
-        return this.resolveSitemap(source.url);
+        return this.resolveSitemap(source, politeness, plan.canonicalization, signal);
       case "crawl":
-        return this.resolveCrawl(source, options);
+        return this.resolveCrawl(source, plan, politeness, signal, session);
       case "urls":
-        return source.targets.map((url) => ({ url: this.normalizeUrl(url) }));
+        return source.targets.map((url) => ({ url: this.normalizeUrl(url, plan.canonicalization) }));
       case "files":
-        throw new Error("The files source is not supported yet.");
+        return this.resolveFiles(source);
+    }
+  }
+
+  /** Stops any static file servers started while resolving `files` sources. */
+  async close(): Promise<void> {
+    await Promise.all(this.servers.splice(0).map((server) => server.close()));
+  }
+
+  /**
+   * Serves the HTML files matched by `source.glob` from `source.root`, or from the directory the
+   * globs share. Only directories the globs can match are read, and `node_modules` only when a
+   * glob names it.
+   */
+  private async resolveFiles(source: Extract<InputSource, { type: "files" }>): Promise<PageTarget[]> {
+    if (source.glob.length === 0) {
+      return [];
+    }
+
+    const patterns = source.glob.map((glob) => toGlobPattern(toPosixPath(path.resolve(glob))));
+    const root = path.resolve(source.root ?? this.commonDirectory(patterns.map(({ base }) => base)));
+
+    if (source.root === undefined && path.dirname(root) === root) {
+      throw new Error(`Files source globs share no directory: ${source.glob.join(", ")}. Set root to serve them.`);
+    }
+
+    const isMatch = picomatch(patterns.map(({ pattern }) => pattern));
+    const found = await this.findFiles(root, patterns).catch((error: unknown) => {
+      throw new Error(`Failed to read files source root: ${root}`, { cause: error });
+    });
+    const files = found
+      .filter((filePath) => HTML_EXTENSIONS.includes(path.posix.extname(filePath).toLowerCase()) && isMatch(filePath))
+      .map((filePath) => path.posix.relative(toPosixPath(root), filePath))
+      .sort();
+
+    if (files.length === 0) {
+      return [];
     }
+
+    const server = new StaticFileServer(root);
+    const baseUrl = await server.start();
+    this.servers.push(server);
+
+    return files.map((file) => ({
+      url: this.normalizeUrl(new URL(file.split("/").map(encodeURIComponent).join("/"), baseUrl).toString()),
+    }));
   }
 
-  private async resolveSitemap(url: string): Promise<PageTarget[]> {
-    const response = await fetch(url);
+  /** Lists the files under `directory`, entering only directories that a pattern can match within. */
+  private async findFiles(directory: string, patterns: GlobPattern[]): Promise<string[]> {
+    const entries = await readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const entryPath = toPosixPath(path.join(directory, entry.name));
+
+      if (entry.isFile()) {
+        files.push(entryPath);
+      } else if (entry.isDirectory() && patterns.some((pattern) => canMatchWithin(pattern, entryPath))) {
+        files.push(...(await this.findFiles(path.join(directory, entry.name), patterns)));
+      }
+    }
+
+    return files;
+  }
+
+  private commonDirectory(directories: string[]): string {
+    const [first = [], ...rest] = directories.map((directory) => directory.split("/"));
+    let length = first.length;
+
+    for (const segments of rest) {
+      length = Math.min(length, segments.length);
+
+      for (let index = 0; index < length; index += 1) {
+        if (segments[index] !== first[index]) {
+          length = index;
+          break;
+        }
+      }
+    }
+
+    return first.slice(0, length).join("/") || "/";
+  }
+
+  /**
+   * Reads a sitemap and, depth-first in document order, the sitemaps nested in any index.
+   * Indexes deeper than `maxDepth` and sitemaps beyond `maxSitemaps` are not fetched, and
+   * neither are sitemaps left when `signal` aborts.
+   */
+  private async resolveSitemap(
+    source: Extract<InputSource, { type: "sitemap" }>,
+    politeness: Politeness,
+    canonicalization?: CanonicalizationOptions,
+    signal?: AbortSignal,
+  ): Promise<PageTarget[]> {
+    const maxDepth = source.maxDepth ?? DEFAULT_MAX_SITEMAP_DEPTH;
+    const maxSitemaps = source.maxSitemaps ?? DEFAULT_MAX_SITEMAPS;
+    const fetched = new Set<string>();
+    const collect = async (url: string, depth: number): Promise<SitemapEntry[]> => {
+      if (signal?.aborted || fetched.has(url) || fetched.size >= maxSitemaps) {
+        return [];
+      }
+
+      fetched.add(url);
+
+      let parsed: ParsedSitemap;
+
+      try {
+        parsed = await this.fetchSitemap(url, { ...politeness.requestInit(), signal });
+      } catch (error) {
+        if (signal?.aborted) {
+          return [];
+        }
+
+        throw error;
+      }
+
+      const { entries, sitemaps } = parsed;
+      const nested: SitemapEntry[] = [];
+
+      for (const sitemap of depth < maxDepth ? sitemaps : []) {
+        nested.push(...(await collect(sitemap, depth + 1)));
+      }
+
+      return [...entries, ...nested];
+    };
+    const entries = await collect(this.normalizeUrl(source.url), 0);
+
+    return entries.map(({ changeFrequency, lastModified, priority, url }) => {
+      const sitemap: SitemapMetadata = {
+        ...(lastModified === undefined ? {} : { lastModified }),
+        ...(changeFrequency === undefined ? {} : { changeFrequency }),
+        ...(priority === undefined ? {} : { priority }),
+      };
+
+      return {
+        url: this.normalizeUrl(url, canonicalization),
+        ...(Object.keys(sitemap).length > 0 ? { sitemap } : {}),
+      };
+    });
+  }
+
+  private async fetchSitemap(url: string, init: RequestInit): Promise<ParsedSitemap> {
+    const response = await fetch(url, init);
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch sitemap: HTTP ${response.status}`);
+      throw new Error(`Failed to fetch sitemap: HTTP ${response.status} for ${url}`);
+    }
+
+    const content = await this.readSitemapBody(response, url);
+
+    if (this.isJson(content)) {
+      return { entries: this.parseJsonSitemap(content), sitemaps: [] };
+    }
+
+    if (content.trimStart().startsWith("<")) {
+      return this.parseXmlSitemap(content, url);
     }
 
-    const content = await response.text();
-    const urls = this.isJson(content) ? this.parseJsonSitemap(content) : await this.parseXmlSitemap(content);
+    return { entries: this.parseTextSitemap(content), sitemaps: [] };
+  }
+
+  /** Decodes the body, inflating `.xml.gz` files that were served without `Content-Encoding`. */
+  private async readSitemapBody(response: Response, url: string): Promise<string> {
+    const body = Buffer.from(await response.arrayBuffer());
 
-    return urls.map((targetUrl) => ({ url: this.normalizeUrl(targetUrl) }));
+    if (!GZIP_MAGIC.every((byte, index) => body[index] === byte)) {
+      return body.toString("utf8");
+    }
+
+    try {
+      return (await promisify(gunzip)(body)).toString("utf8");
+    } catch (error) {
+      throw new Error(`Failed to decompress sitemap: ${url}`, { cause: error });
+    }
   }
 
+  /**
+   * Crawls from the seed, consulting `plan.include` and `plan.exclude` while discovering so
+   * `maxPages` only counts wanted pages. Other pages are still loaded for their links unless
+   * `traverseExcluded` is `false`.
+   */
   private async resolveCrawl(
     source: Extract<InputSource, { type: "crawl" }>,
-    options?: ScanOptions,
+    plan: ScanPlan,
+    politeness: Politeness,
+    signal?: AbortSignal,
+    session?: AuthSession,
   ): Promise<PageTarget[]> {
-    const maxConcurrency = Math.max(1, options?.maxConcurrency ?? DEFAULT_CRAWL_CONCURRENCY);
-    const maxDepth = source.maxDepth ?? DEFAULT_MAX_DEPTH;
-    const maxPages = source.maxPages ?? Number.POSITIVE_INFINITY;
+    const { options } = plan;
+    const settings = this.toCrawlSettings(source, plan, politeness, signal);
 
-    if (maxPages <= 0) {
+    if (settings.maxPages <= 0) {
       return [];
     }
 
-    const seedUrl = this.normalizeUrl(source.seedUrl);
-    const seedOrigin = new URL(seedUrl).origin;
-    const browser = await chromium.launch();
+    const [engine] = resolveBrowsers(options);
+    const browser = await launchBrowser(engine);
 
     try {
-      const context = await browser.newContext({ viewport: options?.viewport ?? DEFAULT_VIEWPORT });
+      const context = await browser.newContext({
+        viewport: options?.viewport ?? DEFAULT_VIEWPORT,
+        ...politeness.contextOptions(),
+        ...(await session?.contextOptions(browser)),
+      });
 
       try {
-        return await this.crawlUrls(context, seedUrl, seedOrigin, maxConcurrency, maxDepth, maxPages);
+        return await this.crawlTargets(settings, (visit, read) => this.loadPage(context, visit, read, settings));
       } finally {
         await context.close();
       }
@@ -92,35 +407,78 @@ export class UrlSource {
     }
   }
 
-  private async crawlUrls(
-    context: BrowserContext,
-    seedUrl: string,
-    seedOrigin: string,
-    maxConcurrency: number,
-    maxDepth: number,
-    maxPages: number,
+  private toCrawlSettings(
+    source: Extract<InputSource, { type: "crawl" }>,
+    plan: ScanPlan,
+    politeness: Politeness,
+    signal?: AbortSignal,
+  ): CrawlSettings {
+    const seeds = [source.seedUrl, ...(source.seedUrls ?? [])];
+    const seedUrls = [...new Set(seeds.map((url) => this.normalizeUrl(url, plan.canonicalization)))];
+    const seedOrigins = new Set(seedUrls.map((url) => new URL(url).origin));
+    const allowedOrigins = (source.allowedOrigins ?? []).map(toWildcardRegExp);
+    const allowedHosts = (source.allowedHosts ?? []).map(toWildcardRegExp);
+
+    return {
+      canonicalization: plan.canonicalization ?? {},
+      isAllowedOrigin: ({ hostname, origin }) =>
+        seedOrigins.has(origin)
+        || allowedOrigins.some((pattern) => pattern.test(origin))
+        || allowedHosts.some((pattern) => pattern.test(hostname)),
+      isWanted: (url) => this.isWanted(url, plan),
+      maxConcurrency: Math.max(1, plan.options?.maxConcurrency ?? DEFAULT_CRAWL_CONCURRENCY),
+      maxDepth: source.maxDepth ?? DEFAULT_MAX_DEPTH,
+      maxPages: source.maxPages ?? Number.POSITIVE_INFINITY,
+      planTargets: new Map(
+        (plan.targets ?? []).map((target) => [this.normalizeUrl(target.url, plan.canonicalization), target]),
+      ),
+      politeness,
+      seedUrls,
+      signal,
+      traverseExcluded: source.traverseExcluded ?? true,
+    };
+  }
+
+  private async crawlTargets(
+    settings: CrawlSettings,
+    visit: CrawlVisitor,
+    onTarget?: (target: PageTarget, visit: CrawlVisit) => void,
   ): Promise<PageTarget[]> {
-    const queue: CrawlQueueItem[] = [{ depth: 0, url: seedUrl }];
-    const queuedUrls = new Set([seedUrl]);
+    const { isWanted, maxConcurrency, maxDepth, maxPages, politeness, seedUrls, signal, traverseExcluded } = settings;
+    const shouldVisit = (url: string, depth: number) => isWanted(url) || (traverseExcluded && depth < maxDepth);
+    const queue: CrawlQueueItem[] = seedUrls.filter((url) => shouldVisit(url, 0)).map((url) => ({ depth: 0, url }));
+    const queuedUrls = new Set(seedUrls);
+    const targetUrls = new Set<string>();
     const targets: PageTarget[] = [];
 
-    while (queue.length > 0 && targets.length < maxPages) {
+    while (queue.length > 0 && targets.length < maxPages && !signal?.aborted) {
       const batch = queue.splice(0, Math.min(maxConcurrency, maxPages - targets.length));
-      const discovered = await Promise.all(
-        batch.map((item) => this.crawlPage(context, item, seedOrigin, maxDepth)),
-      );
+      const discovered = await Promise.all(batch.map((item) => this.crawlPage(item, visit, settings)));
 
       for (const result of discovered) {
         if (!result) {
           continue;
         }
 
-        targets.push({ url: result.url });
+        queuedUrls.add(result.url);
+
+        if (
+          isWanted(result.url)
+          && !targetUrls.has(result.url)
+          && targets.length < maxPages
+          && (await politeness.isAllowed(result.url, signal))
+        ) {
+          const target = this.toCrawlTarget(result.url, settings);
+
+          targetUrls.add(result.url);
+          targets.push(target);
+          onTarget?.(target, result.visit);
+        }
 
         for (const link of result.links) {
-          if (!queuedUrls.has(link)) {
+          if (!queuedUrls.has(link) && shouldVisit(link, result.visit.depth + 1)) {
             queuedUrls.add(link);
-            queue.push({ depth: result.depth + 1, url: link });
+            queue.push({ depth: result.visit.depth + 1, url: link });
           }
         }
       }
@@ -130,26 +488,62 @@ export class UrlSource {
   }
 
   private async crawlPage(
-    context: BrowserContext,
     item: CrawlQueueItem,
-    seedOrigin: string,
-    maxDepth: number,
-  ): Promise<{ depth: number; links: string[]; url: string } | undefined> {
-    const page = await context.newPage();
+    visit: CrawlVisitor,
+    settings: CrawlSettings,
+  ): Promise<(CrawledPage & { visit: CrawlVisit }) | undefined> {
+    if (!(await settings.politeness.isAllowed(item.url, settings.signal))) {
+      return undefined;
+    }
+
+    const crawlVisit: CrawlVisit = {
+      depth: item.depth,
+      target: this.toCrawlTarget(item.url, settings),
+      wanted: settings.isWanted(item.url),
+    };
 
     try {
-      await page.goto(item.url, { waitUntil: "domcontentloaded" });
-      const links = item.depth < maxDepth ? await this.extractLinks(page, item.url, seedOrigin) : [];
+      const page = await visit(crawlVisit, (loaded) => this.readCrawlPage(loaded, item, settings));
 
-      return { depth: item.depth, links, url: item.url };
+      return page && { ...page, visit: crawlVisit };
     } catch {
       return undefined;
+    }
+  }
+
+  /** Visits a page for `resolve`, which only needs its links. */
+  private async loadPage(
+    context: BrowserContext,
+    { target }: CrawlVisit,
+    read: (page: Page) => Promise<CrawledPage>,
+    { politeness, signal }: CrawlSettings,
+  ): Promise<CrawledPage> {
+    const page = await context.newPage();
+
+    try {
+      await politeness.wait(target.url, signal);
+      await page.goto(target.url, { waitUntil: "domcontentloaded" });
+
+      return await read(page);
     } finally {
       await page.close();
     }
   }
 
-  private async extractLinks(page: Page, baseUrl: string, seedOrigin: string): Promise<string[]> {
+  private async readCrawlPage(page: Page, item: CrawlQueueItem, settings: CrawlSettings): Promise<CrawledPage> {
+    const links = item.depth < settings.maxDepth ? await this.extractLinks(page, item.url, settings) : [];
+    const canonicalUrl = settings.canonicalization.relCanonical
+      ? await this.extractCanonicalUrl(page, item.url, settings)
+      : undefined;
+
+    return { links, url: canonicalUrl ?? item.url };
+  }
+
+  private toCrawlTarget(url: string, { planTargets }: CrawlSettings): PageTarget {
+    return { ...planTargets.get(url), url };
+  }
+
+  private async extractLinks(page: Page, baseUrl: string, settings: CrawlSettings): Promise<string[]> {
     const hrefs = await page.evaluate(() =>
       [...document.querySelectorAll("a[href]")]
         .map((anchor) => anchor.getAttribute("href"))
@@ -157,48 +551,95 @@ export class UrlSource {
     );
 
     return hrefs
-      .map((href) => this.resolveCrawlLink(href, baseUrl, seedOrigin))
+      .map((href) => this.resolveCrawlLink(href, baseUrl, settings))
       .filter((url): url is string => url !== undefined);
   }
 
-  private resolveCrawlLink(href: string, baseUrl: string, seedOrigin: string): string | undefined {
+  /** Reads `<link rel="canonical">`, ignoring canonical URLs on another origin. */
+  private async extractCanonicalUrl(page: Page, baseUrl: string, settings: CrawlSettings): Promise<string | undefined> {
+    const href = await page.evaluate(
+      () => document.querySelector('link[rel~="canonical" i][href]')?.getAttribute("href") ?? null,
+    );
+
+    return href === null ? undefined : this.resolveCrawlLink(href, baseUrl, settings);
+  }
+
+  private resolveCrawlLink(
+    href: string,
+    baseUrl: string,
+    { canonicalization, isAllowedOrigin }: CrawlSettings,
+  ): string | undefined {
     try {
       const url = new URL(href, baseUrl);
 
-      if (!['http:', 'https:'].includes(url.protocol) || url.origin !== seedOrigin) {
+      if (!['http:', 'https:'].includes(url.protocol) || !isAllowedOrigin(url)) {
         return undefined;
       }
 
-      return this.normalizeUrl(url.toString());
+      return this.normalizeUrl(url.toString(), canonicalization);
     } catch {
       return undefined;
     }
   }
 
-  private mergeTargets(sourceTargets: PageTarget[], planTargets: PageTarget[]): PageTarget[] {
+  private mergeTargets(
+    sourceTargets: PageTarget[],
+    planTargets: PageTarget[],
+    canonicalization?: CanonicalizationOptions,
+  ): PageTarget[] {
     const targets = new Map<string, PageTarget>();
 
     for (const target of sourceTargets) {
-      const url = this.normalizeUrl(target.url);
+      const url = this.normalizeUrl(target.url, canonicalization);
       targets.set(url, { ...target, url });
     }
 
     for (const target of planTargets) {
-      const url = this.normalizeUrl(target.url);
+      const url = this.normalizeUrl(target.url, canonicalization);
       targets.set(url, { ...targets.get(url), ...target, url });
     }
 
     return [...targets.values()];
   }
 
-  private filterTargets(targets: PageTarget[], include: string[], exclude: string[]): PageTarget[] {
-    return targets.filter((target) => {
-      const path = new URL(target.url).pathname;
-      const included = include.length === 0 || include.some((pattern) => this.matchesPath(pattern, path));
-      const excluded = exclude.some((pattern) => this.matchesPath(pattern, path));
+  private isWanted(value: string, { exclude = [], include = [] }: ScanPlan): boolean {
+    const url = new URL(value);
+    const included = include.length === 0 || include.some((pattern) => this.matchesPattern(pattern, url));
+    const excluded = exclude.some((pattern) => this.matchesPattern(pattern, url));
 
-      return included && !excluded;
-    });
+    return included && !excluded;
+  }
+
+  /**
+   * Matches the path glob before the first `?` against the pathname. Each `&`-separated
+   * `name` or `name=glob` after it must match a query parameter of `url`.
+   */
+  private matchesPattern(pattern: string, url: URL): boolean {
+    const separator = pattern.indexOf("?");
+
+    if (separator === -1) {
+      return this.matchesPath(pattern, url.pathname);
+    }
+
+    const pathPattern = pattern.slice(0, separator) || "/**";
+    const terms = pattern
+      .slice(separator + 1)
+      .split("&")
+      .filter((term) => term.length > 0);
+
+    return (
+      this.matchesPath(pathPattern, url.pathname)
+      && terms.every((term) => this.matchesQueryTerm(term, url.searchParams))
+    );
+  }
+
+  private matchesQueryTerm(term: string, params: URLSearchParams): boolean {
+    const separator = term.indexOf("=");
+    const values = params.getAll(separator === -1 ? term : term.slice(0, separator));
+
+    return separator === -1
+      ? values.length > 0
+      : values.some((value) => picomatch.isMatch(value, term.slice(separator + 1)));
   }
 
   private matchesPath(pattern: string, path: string): boolean {
@@ -218,30 +659,146 @@ export class UrlSource {
     }
   }
 
-  private parseJsonSitemap(content: string): string[] {
+  private parseJsonSitemap(content: string): SitemapEntry[] {
     const sitemap = JSON.parse(content) as JsonSitemap;
 
     if (!Array.isArray(sitemap.urls)) {
       throw new Error("Invalid JSON sitemap format.");
     }
 
-    return sitemap.urls.map((entry) => entry.url);
+    return sitemap.urls.map(({ changeFrequency, lastModified, priority, url }) =>
+      this.toSitemapEntry(url, lastModified, changeFrequency, priority),
+    );
   }
 
-  private async parseXmlSitemap(content: string): Promise<string[]> {
+  private async parseXmlSitemap(content: string, baseUrl: string): Promise<ParsedSitemap> {
     const sitemap = (await new Parser().parseStringPromise(content)) as XmlSitemap;
+
+    if (sitemap.sitemapindex) {
+      const sitemaps = (sitemap.sitemapindex.sitemap ?? [])
+        .map((entry) => entry.loc?.[0]?.trim())
+        .filter((url): url is string => url !== undefined)
+        .map((url) => this.normalizeUrl(new URL(url, baseUrl).toString()));
+
+      return { entries: [], sitemaps };
+    }
+
     const entries = sitemap.urlset?.url;
 
     if (!Array.isArray(entries)) {
       throw new Error("Invalid XML sitemap format.");
     }
 
-    return entries.map((entry) => entry.loc?.[0]).filter((url): url is string => url !== undefined);
+    return {
+      entries: entries.flatMap(({ changefreq, lastmod, loc, priority }) => {
+        const url = loc?.[0]?.trim();
+
+        return url
+          ? [
+              this.toSitemapEntry(
+                url,
+                lastmod?.[0]?.trim(),
+                changefreq?.[0]?.trim(),
+                priority?.[0] === undefined ? undefined : Number.parseFloat(priority[0]),
+              ),
+            ]
+          : [];
+      }),
+      sitemaps: [],
+    };
   }
 
-  private normalizeUrl(value: string): string {
-    const url = new URL(value);
-    url.hash = "";
-    return url.toString();
+  /** Reads a plain-text sitemap, which lists one absolute URL per line. */
+  private parseTextSitemap(content: string): SitemapEntry[] {
+    return content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        if (!URL.canParse(line)) {
+          throw new Error(`Invalid text sitemap format: "${line}" is not an absolute URL.`);
+        }
+
+        return this.toSitemapEntry(line);
+      });
+  }
+
+  private toSitemapEntry(
+    url: string,
+    lastModified?: string,
+    changeFrequency?: string,
+    priority?: number,
+  ): SitemapEntry {
+    return {
+      path: new URL(url).pathname,
+      url,
+      ...(lastModified ? { lastModified } : {}),
+      ...(changeFrequency ? { changeFrequency } : {}),
+      ...(priority === undefined || Number.isNaN(priority) ? {} : { priority }),
+    };
+  }
+
+  private normalizeUrl(value: string, canonicalization?: CanonicalizationOptions): string {
+    return canonicalizeUrl(value, canonicalization);
   }
 }
+
+/** Compiles an origin or host pattern whose `*` matches any run of characters other than `/`. */
+function toWildcardRegExp(pattern: string): RegExp {
+  const body = toWildcardSource(pattern, "[^/]*");
+
+  return new RegExp(`^${body}$`, "i");
+}
+
+/** An absolute POSIX glob split into the directory it starts from and the segments matched below it. */
+interface GlobPattern {
+  base: string;
+  pattern: string;
+  segments: string[];
+}
+
+function toGlobPattern(pattern: string): GlobPattern {
+  const { base, glob } = picomatch.scan(pattern);
+
+  // A glob without wildcards names one file, so it starts from that file's directory.
+  return glob === ""
+    ? { base: path.posix.dirname(base), pattern, segments: [path.posix.basename(base)] }
+    : { base, pattern, segments: glob.split("/") };
+}
+
+/** Whether files matching `pattern` can sit somewhere below `directory`. */
+function canMatchWithin({ base, segments }: GlobPattern, directory: string): boolean {
+  const fromBase = path.posix.relative(base, directory);
+
+  if (fromBase === "" || fromBase.startsWith("..")) {
+    return !path.posix.relative(directory, base).startsWith("..");
+  }
+
+  const names = fromBase.split("/");
+
+  if (names.includes("node_modules") && !segments.includes("node_modules")) {
+    return false;
+  }
+
+  return matchesSegments(names, segments);
+}
+
+/** Matches directory names against the leading glob segments, leaving at least one segment for the file. */
+function matchesSegments(names: string[], segments: string[]): boolean {
+  const [name, ...restNames] = names;
+  const [segment, ...restSegments] = segments;
+
+  if (name === undefined) {
+    return segment !== undefined;
+  }
+
+  if (segment === "**") {
+    return !name.startsWith(".") && (matchesSegments(restNames, segments) || matchesSegments(names, restSegments));
+  }
+
+  return segment !== undefined && picomatch.isMatch(name, segment) && matchesSegments(restNames, restSegments);
+}
+
+function toPosixPath(value: string): string {
+  return value.split(path.sep).join("/");
+}
@@ -0,0 +1,45 @@
+import { devices } from "@playwright/test";
+import { describe, expect, it } from "vitest";
+
+import { resolveViewports } from "./index";
+
+describe("resolveViewports", () => {
+  it("falls back to the single configured viewport", () => {
+    expect(resolveViewports()).toEqual([{ contextOptions: { viewport: { height: 800, width: 1280 } } }]);
+    expect(resolveViewports({ viewport: { height: 600, width: 800 }, viewports: [] })).toEqual([
+      { contextOptions: { viewport: { height: 600, width: 800 } } },
+    ]);
+  });
+
+  it("expands device names and named sizes", () => {
+    const { defaultBrowserType: _defaultBrowserType, ...iPhone } = devices["iPhone 13"];
+
+    expect(
+      resolveViewports({
+        viewports: [
+          "iPhone 13",
+          { device: "iPhone 13", name: "phone" },
+          { height: 1024, isMobile: true, name: "tablet", width: 768 },
+        ],
+      }),
+    ).toEqual([
+      { contextOptions: iPhone, name: "iPhone 13" },
+      { contextOptions: iPhone, name: "phone" },
+      { contextOptions: { isMobile: true, viewport: { height: 1024, width: 768 } }, name: "tablet" },
+    ]);
+  });
+
+  it("rejects unknown devices and duplicate names", () => {
+    expect(() => resolveViewports({ viewports: ["Nokia 3310"] })).toThrow(
+      'Unknown Playwright device "Nokia 3310" in ScanOptions.viewports.',
+    );
+    expect(() =>
+      resolveViewports({
+        viewports: [
+          { height: 800, name: "desktop", width: 1280 },
+          { device: "Desktop Chrome", name: "desktop" },
+        ],
+      }),
+    ).toThrow('Duplicate viewport name "desktop" in ScanOptions.viewports.');
+  });
+});
@@ -0,0 +1,57 @@
+import { devices, type BrowserContextOptions } from "@playwright/test";
+
+import type { ScanOptions, ViewportOption } from "@/types";
+
+const DEFAULT_VIEWPORT = { height: 800, width: 1280 };
+
+export interface ResolvedViewport {
+  /** Omitted for the single viewport used when `ScanOptions.viewports` is not set */
+  name?: string;
+  contextOptions: BrowserContextOptions;
+}
+
+/** Expands `ScanOptions.viewports` into browser context options, falling back to `ScanOptions.viewport`. */
+export function resolveViewports(options: ScanOptions = {}): ResolvedViewport[] {
+  if (!options.viewports?.length) {
+    return [{ contextOptions: { viewport: options.viewport ?? DEFAULT_VIEWPORT } }];
+  }
+
+  const names = new Set<string>();
+
+  return options.viewports.map((entry) => {
+    const viewport = resolveViewport(entry);
+
+    if (names.has(viewport.name)) {
+      throw new Error(`Duplicate viewport name "${viewport.name}" in ScanOptions.viewports.`);
+    }
+
+    names.add(viewport.name);
+    return viewport;
+  });
+}
+
+function resolveViewport(entry: ViewportOption): Required<ResolvedViewport> {
+  if (typeof entry === "string") {
+    return { contextOptions: toDeviceOptions(entry), name: entry };
+  }
+
+  if ("device" in entry) {
+    return { contextOptions: toDeviceOptions(entry.device), name: entry.name };
+  }
+
+  const { height, name, width, ...contextOptions } = entry;
+
+  return { contextOptions: { ...contextOptions, viewport: { height, width } }, name };
+}
+
+function toDeviceOptions(device: string): BrowserContextOptions {
+  const descriptor = devices[device];
+
+  if (!descriptor) {
+    throw new Error(`Unknown Playwright device "${device}" in ScanOptions.viewports.`);
+  }
+
+  const { defaultBrowserType: _defaultBrowserType, ...contextOptions } = descriptor;
+
+  return contextOptions;
+}
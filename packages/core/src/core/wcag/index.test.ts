@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeWcagTags, getWcagCriterion, listWcagCriteria } from "./index";
+
+describe("decodeWcagTags", () => {
+  it("decodes success criterion tags and ignores level and other tags", () => {
+    expect(decodeWcagTags(["cat.color", "wcag2aa", "wcag1410", "wcag143", "wcag143", "best-practice"])).toEqual([
+      { id: "1.4.3", level: "AA", principle: "Perceivable", title: "Contrast (Minimum)", version: "2.0" },
+      { id: "1.4.10", level: "AA", principle: "Perceivable", title: "Reflow", version: "2.1" },
+    ]);
+  });
+
+  it("ignores criteria WCAG does not define", () => {
+    expect(decodeWcagTags(["wcag199", "wcag258"])).toEqual([getWcagCriterion("2.5.8")]);
+  });
+});
+
+describe("listWcagCriteria", () => {
+  it("lists every WCAG 2.2 criterion plus the obsolete 4.1.1 once, in document order", () => {
+    const criteria = listWcagCriteria();
+
+    expect(criteria).toHaveLength(87);
+    expect(new Set(criteria.map(({ id }) => id)).size).toBe(87);
+    expect(criteria.filter(({ level }) => level !== "AAA")).toHaveLength(56);
+    expect(criteria.at(0)?.id).toBe("1.1.1");
+    expect(criteria.at(-1)).toEqual({
+      id: "4.1.3",
+      level: "AA",
+      principle: "Robust",
+      title: "Status Messages",
+      version: "2.1",
+    });
+  });
+
+  it("lists the criteria of one WCAG version", () => {
+    expect(listWcagCriteria("2.0")).toHaveLength(61);
+    expect(listWcagCriteria("2.1")).toHaveLength(78);
+    expect(listWcagCriteria("2.2").map(({ id }) => id)).not.toContain("4.1.1");
+    expect(listWcagCriteria("2.2")).toHaveLength(86);
+  });
+});
@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+
+import { toWildcardSource } from "./index";
+
+describe("toWildcardSource", () => {
+  it("escapes regular expression characters and expands wildcards", () => {
+    expect(toWildcardSource("/orders/*.json?")).toBe("/orders/.*\\.json\\?");
+    expect(toWildcardSource("*.example.com", "[^/]*")).toBe("[^/]*\\.example\\.com");
+    expect(new RegExp(`^${toWildcardSource("a+b*")}$`).test("a+b/c")).toBe(true);
+  });
+});
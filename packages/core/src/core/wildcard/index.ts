@@ -0,0 +1,10 @@
+/**
+ * Escapes `pattern` for use in a regular expression, with each `*` standing for `wildcard`.
+ * Callers add the anchors and flags their pattern syntax needs.
+ */
+export function toWildcardSource(pattern: string, wildcard = ".*"): string {
+  return pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(wildcard);
+}
@@ -1,9 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { EventEmitter } from "node:events";
-import { chromium } from "@playwright/test";
+import { chromium, firefox } from "@playwright/test";
 
 import type { ScanPlan } from "@/types";
-import { PageScanner, UrlSource } from "./core";
+import { AuthSession, PageScanner, Politeness, UrlSource } from "./core";
 import { scan } from "./index";
 
 const mocks = {
@@ -16,6 +16,15 @@ function createPage() {
   return { close: vi.fn().mockResolvedValue(undefined) };
 }
 
+function createFinding(id: string, impact = "serious", nodeCount = 1) {
+  return {
+    help: `Fix ${id}`,
+    id,
+    impact,
+    nodes: Array.from({ length: nodeCount }, (_node, index) => ({ target: [`#${id}-${index}`] })),
+  };
+}
+
 function createPlan(urls: string[], maxConcurrency = 1): ScanPlan {
   return {
     options: { maxConcurrency },
@@ -47,8 +56,8 @@ describe("scan", () => {
   it("is awaitable, emits lifecycle events, and aggregates findings", async () => {
     mocks.resolve.mockResolvedValue([{ url: "https://example.com/one" }, { url: "https://example.com/two" }]);
     mocks.scan
-      .mockResolvedValueOnce([{ id: "one" }] as never)
-      .mockResolvedValueOnce([{ id: "two" }, { id: "three" }] as never);
+      .mockResolvedValueOnce({ findings: [createFinding("one")] } as never)
+      .mockResolvedValueOnce({ findings: [createFinding("two"), createFinding("three")] } as never);
     const events: string[] = [];
     const operation = scan(createPlan(["https://example.com/one", "https://example.com/two"]));
 
@@ -61,10 +70,17 @@ describe("scan", () => {
     await expect(operation).resolves.toEqual({
       summary: expect.objectContaining({ pagesScanned: 2, totalFindings: 3 }),
       urlResults: [
-        { findings: [{ id: "one" }], url: "https://example.com/one" },
-        { findings: [{ id: "two" }, { id: "three" }], url: "https://example.com/two" },
+        { findings: [createFinding("one")], url: "https://example.com/one" },
+        { findings: [createFinding("two"), createFinding("three")], url: "https://example.com/two" },
       ],
     });
+    expect(mocks.scan).toHaveBeenNthCalledWith(
+      1,
+      { url: "https://example.com/one" },
+      expect.anything(),
+      undefined,
+      expect.any(AbortSignal),
+    );
     expect(events).toEqual([
       "progress:fetch:https://example.com/one",
       "progress:scan:https://example.com/one",
@@ -76,6 +92,102 @@ describe("scan", () => {
     ]);
   });
 
+  it("summarizes impacts, affected elements, page outcomes and failing rules", async () => {
+    mocks.resolve.mockResolvedValue([
+      { url: "https://example.com/one" },
+      { url: "https://example.com/two" },
+      { url: "https://example.com/three" },
+      { url: "https://example.com/four" },
+    ]);
+    mocks.scan
+      .mockResolvedValueOnce({
+        findings: [createFinding("label", "serious", 2), createFinding("region", "moderate")],
+      } as never)
+      .mockResolvedValueOnce({ findings: [createFinding("label", "critical", 3)] } as never)
+      .mockResolvedValueOnce({ findings: [] } as never)
+      .mockRejectedValueOnce(new Error("Navigation failed"));
+
+    const { summary } = await scan(
+      createPlan([
+        "https://example.com/one",
+        "https://example.com/two",
+        "https://example.com/three",
+        "https://example.com/four",
+      ]),
+    );
+
+    expect(summary).toMatchObject({
+      impacts: { critical: 1, minor: 0, moderate: 1, serious: 1 },
+      pagesScanned: 4,
+      pagesWithErrors: 1,
+      pagesWithFindings: 2,
+      rules: [
+        { help: "Fix label", id: "label", impact: "critical", nodeCount: 5, pagesAffected: 2 },
+        { help: "Fix region", id: "region", impact: "moderate", nodeCount: 1, pagesAffected: 1 },
+      ],
+      totalFindings: 3,
+      totalNodes: 6,
+    });
+  });
+
+  it("streams each page result through async iteration and page:done", async () => {
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/one" }, { url: "https://example.com/two" }]);
+    mocks.scan
+      .mockRejectedValueOnce(new Error("Navigation failed"))
+      .mockResolvedValueOnce({ findings: [createFinding("two")] } as never);
+    const operation = scan(createPlan(["https://example.com/one", "https://example.com/two"]));
+    const payloads: unknown[] = [];
+    const streamed: unknown[] = [];
+
+    operation.on("page:done", ({ result }) => payloads.push(result));
+
+    for await (const result of operation) {
+      streamed.push(result);
+    }
+
+    expect(streamed).toEqual([
+      { error: "Navigation failed", findings: [], url: "https://example.com/one" },
+      { findings: [createFinding("two")], url: "https://example.com/two" },
+    ]);
+    expect(payloads).toEqual(streamed);
+    expect((await operation).urlResults).toEqual(streamed);
+  });
+
+  it("marks suppressed findings on streamed results and counts new and known findings", async () => {
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/one" }]);
+    mocks.scan.mockResolvedValueOnce({
+      findings: [
+        { id: "label", impact: "critical", nodes: [{ target: ["#email"] }] },
+        { id: "region", impact: "moderate", nodes: [{ target: ["main"] }] },
+      ],
+    } as never);
+    const operation = scan({
+      ...createPlan(["https://example.com/one"]),
+      suppressions: [{ reason: "Form is being redesigned", ruleId: "label" }],
+    });
+    const streamed: unknown[] = [];
+
+    for await (const result of operation) {
+      streamed.push(result);
+    }
+
+    const { summary, urlResults } = await operation;
+
+    expect(urlResults).toEqual(streamed);
+    expect(urlResults[0]?.findings.map((finding) => finding.suppressed)).toEqual([true, undefined]);
+    expect(summary).toMatchObject({ knownFindings: 1, newFindings: 1, totalFindings: 2 });
+  });
+
+  it("rethrows scan failures from async iteration", async () => {
+    mocks.resolve.mockRejectedValue(new Error("Unable to resolve plan"));
+
+    await expect(async () => {
+      for await (const _result of scan(createPlan(["https://example.com"]))) {
+        // no pages complete before the failure
+      }
+    }).rejects.toThrow("Unable to resolve plan");
+  });
+
   it("caps concurrent scanner work and preserves target order", async () => {
     const urls = ["https://example.com/one", "https://example.com/two", "https://example.com/three"];
     let active = 0;
@@ -87,7 +199,7 @@ describe("scan", () => {
       maxActive = Math.max(maxActive, active);
       await new Promise((resolve) => setTimeout(resolve, 5));
       active -= 1;
-      return [];
+      return { findings: [] };
     });
 
     const result = await scan(createPlan(urls, 2));
@@ -97,27 +209,355 @@ describe("scan", () => {
   });
 
   it("reports target errors and continues remaining scans", async () => {
-    const failure = new Error("Axe failed");
+    const failure = Object.assign(new Error("Axe failed"), { attempts: 2 });
     const errors: Array<{ message: string; url?: string }> = [];
 
     mocks.resolve.mockResolvedValue([{ url: "https://example.com/broken" }, { url: "https://example.com/valid" }]);
-    mocks.scan.mockRejectedValueOnce(failure).mockResolvedValueOnce([{ id: "valid" }] as never);
+    mocks.scan.mockRejectedValueOnce(failure).mockResolvedValueOnce({ findings: [createFinding("valid")] } as never);
     const operation = scan(createPlan(["https://example.com/broken", "https://example.com/valid"]));
     operation.on("error", ({ error, url }) => errors.push({ message: error.message, url }));
 
     await expect(operation).resolves.toEqual({
       summary: expect.objectContaining({ pagesScanned: 2, totalFindings: 1 }),
       urlResults: [
-        { error: "Axe failed", findings: [], url: "https://example.com/broken" },
-        { findings: [{ id: "valid" }], url: "https://example.com/valid" },
+        { attempts: 2, error: "Axe failed", findings: [], url: "https://example.com/broken" },
+        { findings: [createFinding("valid")], url: "https://example.com/valid" },
       ],
     });
     expect(errors).toEqual([{ message: "Axe failed", url: "https://example.com/broken" }]);
   });
 
+  it("shares one auth session between source resolution and the scan context", async () => {
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/account" }]);
+    mocks.scan.mockResolvedValue({ findings: [] });
+
+    await scan({ ...createPlan(["https://example.com/account"]), auth: { headers: { "X-Preview": "on" } } });
+
+    const browser = await mocks.launch.mock.results[0]?.value;
+    expect(mocks.resolve).toHaveBeenCalledWith(expect.anything(), {
+      politeness: expect.any(Politeness),
+      session: expect.any(AuthSession),
+      signal: expect.any(AbortSignal),
+    });
+    expect(browser.newContext).toHaveBeenCalledWith({
+      extraHTTPHeaders: { "X-Preview": "on" },
+      viewport: { height: 800, width: 1280 },
+    });
+  });
+
+  it("scans every target once per viewport and totals findings per viewport", async () => {
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/one" }, { url: "https://example.com/two" }]);
+    mocks.scan
+      .mockResolvedValueOnce({ findings: [createFinding("desktop-one")] } as never)
+      .mockResolvedValueOnce({ findings: [createFinding("mobile-one"), createFinding("menu")] } as never)
+      .mockResolvedValueOnce({ findings: [] })
+      .mockResolvedValueOnce({ findings: [createFinding("mobile-two")] } as never);
+    const pages: string[] = [];
+    const operation = scan({
+      options: { maxConcurrency: 1, viewports: [{ height: 800, name: "desktop", width: 1280 }, "iPhone 13"] },
+      source: { targets: ["https://example.com/one", "https://example.com/two"], type: "urls" },
+    });
+    operation.on("page:done", ({ url, viewport }) => pages.push(`${viewport}:${url}`));
+
+    const result = await operation;
+    const browser = await mocks.launch.mock.results[0]?.value;
+
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+    expect(browser.newContext).toHaveBeenCalledWith(expect.objectContaining({ isMobile: true }));
+    expect(pages).toEqual([
+      "desktop:https://example.com/one",
+      "iPhone 13:https://example.com/one",
+      "desktop:https://example.com/two",
+      "iPhone 13:https://example.com/two",
+    ]);
+    expect(result.urlResults.map(({ url, viewport }) => `${viewport}:${url}`)).toEqual(pages);
+    expect(result.summary).toMatchObject({
+      pagesScanned: 4,
+      totalFindings: 4,
+      viewports: { desktop: { pagesScanned: 2, totalFindings: 1 }, "iPhone 13": { pagesScanned: 2, totalFindings: 3 } },
+    });
+  });
+
+  it("counts each page once per rule across the scan matrix", async () => {
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/one" }, { url: "https://example.com/two" }]);
+    mocks.scan
+      .mockResolvedValueOnce({ findings: [createFinding("label")] } as never)
+      .mockResolvedValueOnce({ findings: [createFinding("label", "serious", 2)] } as never)
+      .mockResolvedValueOnce({ findings: [createFinding("label")] } as never)
+      .mockResolvedValueOnce({ findings: [] });
+
+    const result = await scan({
+      options: { maxConcurrency: 1, viewports: [{ height: 800, name: "desktop", width: 1280 }, "iPhone 13"] },
+      source: { targets: ["https://example.com/one", "https://example.com/two"], type: "urls" },
+    });
+
+    expect(result.summary.rules).toEqual([
+      { help: "Fix label", id: "label", impact: "serious", nodeCount: 4, pagesAffected: 2 },
+    ]);
+  });
+
+  it("combines emulation variants with the viewport matrix", async () => {
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/" }]);
+    mocks.scan.mockResolvedValue({ findings: [] });
+
+    const result = await scan({
+      options: {
+        emulation: [
+          { colorScheme: "light", name: "light" },
+          { colorScheme: "dark", name: "dark" },
+        ],
+        viewports: [{ height: 800, name: "desktop", width: 1280 }],
+      },
+      source: { targets: ["https://example.com/"], type: "urls" },
+    });
+    const browser = await mocks.launch.mock.results[0]?.value;
+
+    expect(browser.newContext).toHaveBeenNthCalledWith(1, {
+      colorScheme: "light",
+      viewport: { height: 800, width: 1280 },
+    });
+    expect(browser.newContext).toHaveBeenNthCalledWith(2, {
+      colorScheme: "dark",
+      viewport: { height: 800, width: 1280 },
+    });
+    expect(result.urlResults).toEqual([
+      { emulation: "light", findings: [], url: "https://example.com/", viewport: "desktop" },
+      { emulation: "dark", findings: [], url: "https://example.com/", viewport: "desktop" },
+    ]);
+    expect(result.summary.emulations).toEqual({
+      dark: { pagesScanned: 1, totalFindings: 0 },
+      light: { pagesScanned: 1, totalFindings: 0 },
+    });
+  });
+
+  it("scans every target in each requested browser engine", async () => {
+    const context = { close: vi.fn().mockResolvedValue(undefined), newPage: vi.fn(async () => createPage()) };
+    const firefoxBrowser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn(async () => context) };
+    vi.spyOn(firefox, "launch").mockResolvedValue(firefoxBrowser as never);
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/" }]);
+    mocks.scan
+      .mockResolvedValueOnce({ findings: [] })
+      .mockResolvedValueOnce({ findings: [createFinding("firefox")] } as never);
+    const events: string[] = [];
+
+    const operation = scan({
+      options: { browser: ["chromium", "firefox"], viewports: ["iPhone 13"] },
+      source: { targets: ["https://example.com/"], type: "urls" },
+    });
+    operation.on("page:done", ({ browser, url }) => events.push(`${browser}:${url}`));
+    const result = await operation;
+    const chromiumBrowser = await mocks.launch.mock.results[0]?.value;
+
+    expect(chromiumBrowser.newContext).toHaveBeenCalledWith(expect.objectContaining({ isMobile: true }));
+    expect(firefoxBrowser.newContext).toHaveBeenCalledWith(expect.not.objectContaining({ isMobile: true }));
+    expect(result.urlResults.map(({ browser, url }) => `${browser}:${url}`)).toEqual(events);
+    expect(events).toEqual(["chromium:https://example.com/", "firefox:https://example.com/"]);
+    expect(result.summary.browsers).toEqual({
+      chromium: { pagesScanned: 1, totalFindings: 0 },
+      firefox: { pagesScanned: 1, totalFindings: 1 },
+    });
+    expect(chromiumBrowser.close).toHaveBeenCalledOnce();
+    expect(firefoxBrowser.close).toHaveBeenCalledOnce();
+  });
+
+  it("shares the politeness settings with source resolution and waits for the host before each page", async () => {
+    const wait = vi.spyOn(Politeness.prototype, "wait").mockResolvedValue(undefined);
+    mocks.resolve.mockResolvedValue([{ url: "https://example.com/one" }, { url: "https://example.com/two" }]);
+    mocks.scan.mockResolvedValue({ findings: [] });
+
+    await scan({
+      options: { politeness: { hostDelay: 500, userAgent: "A11yPageChecker/1.0" } },
+      source: { targets: ["https://example.com/one", "https://example.com/two"], type: "urls" },
+    });
+    const browser = await mocks.launch.mock.results[0]?.value;
+    const politeness = mocks.resolve.mock.calls[0]?.[1]?.politeness;
+
+    expect(browser.newContext).toHaveBeenCalledWith({
+      userAgent: "A11yPageChecker/1.0",
+      viewport: { height: 800, width: 1280 },
+    });
+    expect(wait.mock.contexts).toEqual([politeness, politeness]);
+    expect(wait.mock.calls).toEqual([
+      ["https://example.com/one", expect.any(AbortSignal)],
+      ["https://example.com/two", expect.any(AbortSignal)],
+    ]);
+  });
+
+  it("scans crawled pages on the navigation that reads their links", async () => {
+    const links: Record<string, string[]> = {
+      "https://example.com/": ["/about", "/private"],
+      "https://example.com/private": ["/team"],
+    };
+    const gotos: string[] = [];
+    const context = {
+      close: vi.fn().mockResolvedValue(undefined),
+      newPage: vi.fn(() => {
+        let url = "";
+
+        return Promise.resolve({
+          ...createPage(),
+          evaluate: vi.fn(async () => links[url] ?? []),
+          goto: vi.fn(async (target: string) => {
+            url = target;
+            gotos.push(target);
+          }),
+        });
+      }),
+    };
+    const browser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn().mockResolvedValue(context) };
+    const load = vi.spyOn(PageScanner.prototype, "load").mockImplementation(async (target, page) => {
+      await page.goto(target.url);
+    });
+    mocks.launch.mockResolvedValue(browser as never);
+    mocks.scan.mockImplementation(async (target, page, onLoad) => {
+      await page.goto(target.url);
+      await onLoad?.(page);
+      return { findings: [] };
+    });
+    const pages: string[] = [];
+    const operation = scan({
+      exclude: ["/private"],
+      options: { maxConcurrency: 1, viewports: [{ height: 800, name: "desktop", width: 1280 }, "iPhone 13"] },
+      source: { seedUrl: "https://example.com", type: "crawl" },
+    });
+    operation.on("page:done", ({ url, viewport }) => pages.push(`${viewport}:${url}`));
+
+    const result = await operation;
+
+    expect(mocks.launch).toHaveBeenCalledOnce();
+    expect(mocks.resolve).not.toHaveBeenCalled();
+    expect(load).toHaveBeenCalledWith(
+      { url: "https://example.com/private" },
+      expect.anything(),
+      expect.any(AbortSignal),
+    );
+    expect(pages).toEqual([
+      "desktop:https://example.com/",
+      "iPhone 13:https://example.com/",
+      "desktop:https://example.com/about",
+      "iPhone 13:https://example.com/about",
+      "desktop:https://example.com/team",
+      "iPhone 13:https://example.com/team",
+    ]);
+    expect(result.urlResults.map(({ url, viewport }) => `${viewport}:${url}`)).toEqual(pages);
+    expect(gotos).toEqual([
+      "https://example.com/",
+      "https://example.com/",
+      "https://example.com/about",
+      "https://example.com/about",
+      "https://example.com/private",
+      "https://example.com/team",
+      "https://example.com/team",
+    ]);
+  });
+
+  it("keeps crawled results under their canonical URL and streams only the pages it returns", async () => {
+    const pages: Record<string, { canonical?: string; links: string[] }> = {
+      "https://example.com/": { links: ["/copy", "/old"] },
+      "https://example.com/copy": { canonical: "/", links: [] },
+      "https://example.com/old": { canonical: "/new", links: [] },
+    };
+    const context = {
+      close: vi.fn().mockResolvedValue(undefined),
+      newPage: vi.fn(() => {
+        let url = "";
+
+        return Promise.resolve({
+          ...createPage(),
+          evaluate: vi.fn(async (read: () => unknown) =>
+            String(read).includes("canonical") ? (pages[url]?.canonical ?? null) : (pages[url]?.links ?? []),
+          ),
+          goto: vi.fn(async (target: string) => {
+            url = target;
+          }),
+        });
+      }),
+    };
+    const browser = { close: vi.fn().mockResolvedValue(undefined), newContext: vi.fn().mockResolvedValue(context) };
+    mocks.launch.mockResolvedValue(browser as never);
+    const reportedUrls: Array<string | void> = [];
+    mocks.scan.mockImplementation(async (target, page, onLoad) => {
+      await page.goto(target.url);
+      reportedUrls.push(await onLoad?.(page));
+      return { findings: [createFinding("image-alt")] } as never;
+    });
+    const streamed: string[] = [];
+    const operation = scan({
+      canonicalization: { relCanonical: true },
+      options: { maxConcurrency: 1 },
+      suppressions: [{ reason: "Known", ruleId: "image-alt", url: "/new" }],
+      source: { seedUrl: "https://example.com", type: "crawl" },
+    });
+    operation.on("page:done", ({ result, url }) => streamed.push(`${url}:${result.url}`));
+
+    const result = await operation;
+
+    expect(mocks.scan.mock.calls.map(([target]) => target.url)).toEqual([
+      "https://example.com/",
+      "https://example.com/copy",
+      "https://example.com/old",
+    ]);
+    expect(streamed).toEqual([
+      "https://example.com/:https://example.com/",
+      "https://example.com/new:https://example.com/new",
+    ]);
+    expect(result.urlResults.map(({ url }) => url)).toEqual(["https://example.com/", "https://example.com/new"]);
+    expect(reportedUrls).toEqual(["https://example.com/", "https://example.com/", "https://example.com/new"]);
+    expect(result.urlResults.map(({ findings }) => findings[0]?.suppressed)).toEqual([undefined, true]);
+  });
+
   it("rejects source resolution failures without an unhandled error event", async () => {
+    const close = vi.spyOn(UrlSource.prototype, "close");
     mocks.resolve.mockRejectedValue(new Error("Unable to resolve plan"));
 
     await expect(scan(createPlan(["https://example.com"]))).rejects.toThrow("Unable to resolve plan");
+    expect(close).toHaveBeenCalledOnce();
+  });
+
+  it("cancels queued targets and resolves with the pages completed so far", async () => {
+    const urls = ["https://example.com/one", "https://example.com/two", "https://example.com/three"];
+    const events: string[] = [];
+    const errors = vi.fn();
+
+    mocks.resolve.mockResolvedValue(urls.map((url) => ({ url })));
+    const operation = scan(createPlan(urls));
+    mocks.scan
+      .mockResolvedValueOnce({ findings: [createFinding("one")] } as never)
+      .mockImplementationOnce(async () => {
+        operation.cancel();
+        throw new Error("Target page, context or browser has been closed");
+      });
+    operation.on("error", errors);
+    operation.on("done", () => events.push("done"));
+    operation.on("cancelled", ({ summary }) => events.push(`cancelled:${summary.pagesScanned}`));
+
+    await expect(operation).resolves.toEqual({
+      cancelled: true,
+      summary: expect.objectContaining({ pagesScanned: 1, totalFindings: 1 }),
+      urlResults: [{ findings: [createFinding("one")], url: "https://example.com/one" }],
+    });
+    expect(mocks.scan).toHaveBeenCalledTimes(2);
+    expect(errors).not.toHaveBeenCalled();
+    expect(events).toEqual(["cancelled:1"]);
+  });
+
+  it("does not launch a browser when the abort signal fired before targets resolved", async () => {
+    const controller = new AbortController();
+
+    mocks.resolve.mockImplementation(async () => {
+      controller.abort();
+      return [{ url: "https://example.com/" }];
+    });
+
+    await expect(scan(createPlan(["https://example.com/"]), { signal: controller.signal })).resolves.toEqual({
+      cancelled: true,
+      summary: expect.objectContaining({ pagesScanned: 0, totalFindings: 0 }),
+      urlResults: [],
+    });
+    expect(mocks.resolve).toHaveBeenCalledWith(expect.anything(), {
+      politeness: expect.any(Politeness),
+      signal: expect.any(AbortSignal),
+    });
+    expect(mocks.launch).not.toHaveBeenCalled();
   });
 });
@@ -1,30 +1,88 @@
-import { chromium, type BrowserContext, type Page } from "@playwright/test";
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from "@playwright/test";
 import { EventEmitter } from "node:events";
-import pLimit from "p-limit";
+import pLimit, { type LimitFunction } from "p-limit";
 
-import { PageScanner, UrlSource } from "./core";
+import {
+  AuthSession,
+  PageScanner,
+  Politeness,
+  UrlSource,
+  createSuppressor,
+  launchBrowser,
+  loadAxePlugins,
+  readBaseline,
+  resolveBrowsers,
+  resolveEmulations,
+  resolveViewports,
+  summarizeSuppressions,
+  type CrawlVisit,
+  type CrawledPage,
+  type Suppressor,
+} from "./core";
 import type {
+  BrowserEngine,
   ErrorEventPayload,
-  Finding,
   PageDoneEventPayload,
+  PageTarget,
   ProgressEventPayload,
+  RuleSummary,
   ScanOperation,
   ScanPlan,
   ScanResult,
+  ScanRunOptions,
+  Severity,
+  SummaryTotals,
+  UrlResult,
 } from "./types";
 
 const DEFAULT_MAX_CONCURRENCY = 2;
-const DEFAULT_VIEWPORT = { height: 800, width: 1280 };
+const SEVERITIES: Severity[] = ["critical", "serious", "moderate", "minor"];
+
+/** A browser context for one engine, viewport and emulation combination of the scan matrix. */
+interface MatrixContext {
+  context: BrowserContext;
+  browser?: BrowserEngine;
+  viewport?: string;
+  emulation?: string;
+}
+
+/** What every scan job of one run shares. */
+interface ScanRuntime {
+  scanner: PageScanner;
+  politeness: Politeness;
+  operation: ScanOperationEmitter;
+  openPages: Set<Page>;
+  /** Marks known findings; set when the plan has a baseline or suppressions */
+  suppress?: Suppressor;
+}
+
+type PageLocation = Pick<PageDoneEventPayload, "url" | "browser" | "viewport" | "emulation">;
 
 class ScanOperationEmitter extends EventEmitter implements ScanOperation {
   readonly [Symbol.toStringTag] = "Promise";
+  private readonly controller = new AbortController();
   private readonly result: Promise<ScanResult>;
 
-  constructor(executor: (operation: ScanOperationEmitter) => Promise<ScanResult>) {
+  constructor(executor: (operation: ScanOperationEmitter) => Promise<ScanResult>, signal?: AbortSignal) {
     super();
+
+    if (signal?.aborted) {
+      this.cancel();
+    } else {
+      signal?.addEventListener("abort", () => this.cancel(), { once: true });
+    }
+
     this.result = Promise.resolve().then(() => executor(this));
   }
 
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  cancel(): void {
+    this.controller.abort();
+  }
+
   then<TResult1 = ScanResult, TResult2 = never>(
     onfulfilled?: ((value: ScanResult) => TResult1 | PromiseLike<TResult1>) | null,
     onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
@@ -42,6 +100,45 @@ class ScanOperationEmitter extends EventEmitter implements ScanOperation {
     return this.result.finally(onfinally);
   }
 
+  /**
+   * Yields page results in completion order from the first `next()` call until the scan
+   * settles, then rethrows a scan failure. Breaking out of the loop does not cancel the scan.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<UrlResult, void, undefined> {
+    const pending: UrlResult[] = [];
+    let settled = false;
+    let wake: (() => void) | undefined;
+    const onPageDone = ({ result }: PageDoneEventPayload) => {
+      pending.push(result);
+      wake?.();
+    };
+    const onSettled = () => {
+      settled = true;
+      wake?.();
+    };
+
+    this.on("page:done", onPageDone);
+    this.result.then(onSettled, onSettled);
+
+    try {
+      for (;;) {
+        const result = pending.shift();
+
+        if (result) {
+          yield result;
+        } else if (settled) {
+          break;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      }
+
+      await this.result;
+    } finally {
+      this.off("page:done", onPageDone);
+    }
+  }
+
   emitError(payload: ErrorEventPayload): void {
     if (this.listenerCount("error") > 0) {
       this.emit("error", payload);
@@ -49,74 +146,392 @@ class ScanOperationEmitter extends EventEmitter implements ScanOperation {
   }
 }
 
-export function scan(plan: ScanPlan): ScanOperation {
-  return new ScanOperationEmitter((operation) => runScan(plan, operation));
+/**
+ * Starts scanning a plan. Aborting `options.signal` or calling `cancel()` on the returned
+ * operation stops the scan and resolves with the pages completed so far.
+ */
+export function scan(plan: ScanPlan, options: ScanRunOptions = {}): ScanOperation {
+  return new ScanOperationEmitter((operation) => runScan(plan, operation), options.signal);
 }
 
 async function runScan(plan: ScanPlan, operation: ScanOperationEmitter): Promise<ScanResult> {
   const startedAt = Date.now();
+  const source = new UrlSource();
+  const session = plan.auth ? new AuthSession(plan.auth) : undefined;
+  const politeness = new Politeness(plan.options?.politeness);
+  const { signal } = operation;
 
   try {
-    const targets = await new UrlSource().resolve(plan);
-    const browser = await chromium.launch();
+    const engines = resolveBrowsers(plan.options);
+    const viewports = resolveViewports(plan.options);
+    const emulations = resolveEmulations(plan.options);
+    const suppress =
+      plan.baseline === undefined && plan.suppressions === undefined
+        ? undefined
+        : createSuppressor({
+            baseline: plan.baseline === undefined ? undefined : await readBaseline(plan.baseline),
+            suppressions: plan.suppressions,
+          });
+    const plugins = await loadAxePlugins(plan.options?.axe?.plugins ?? []);
+    // A crawl is scanned as it is discovered; other sources are resolved before launching browsers.
+    const targets =
+      plan.source.type === "crawl" ? undefined : await source.resolve(plan, { politeness, session, signal });
+
+    if (signal.aborted) {
+      return finish(operation, startedAt, [], suppress);
+    }
+
+    const browsers: Browser[] = [];
+    const contexts: MatrixContext[] = [];
+    const openPages = new Set<Page>();
+    const closeOpenPages = () => {
+      for (const page of openPages) {
+        void page.close().catch(() => undefined);
+      }
+    };
+
+    signal.addEventListener("abort", closeOpenPages, { once: true });
 
     try {
-      const context = await browser.newContext({ viewport: plan.options?.viewport ?? DEFAULT_VIEWPORT });
-
-      try {
-        const maxConcurrency = Math.max(1, plan.options?.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
-        const limit = pLimit(maxConcurrency);
-        const scanner = new PageScanner();
-        const urlResults = await Promise.all(
-          targets.map((target) => limit(() => scanTarget(target.url, context, scanner, operation))),
-        );
-        const summary = {
-          duration: Date.now() - startedAt,
-          pagesScanned: urlResults.length,
-          totalFindings: urlResults.reduce((total, result) => total + result.findings.length, 0),
-        };
-        const result = { summary, urlResults };
-
-        operation.emit("done", { summary });
-        return result;
-      } finally {
-        await context.close();
+      for (const engine of engines) {
+        const browser = await launchBrowser(engine);
+        browsers.push(browser);
+
+        const authOptions = await session?.contextOptions(browser);
+
+        for (const viewport of viewports) {
+          for (const emulation of emulations) {
+            contexts.push({
+              context: await browser.newContext({
+                ...toEngineOptions(engine, viewport.contextOptions),
+                ...politeness.contextOptions(),
+                ...emulation.contextOptions,
+                ...authOptions,
+              }),
+              ...(plan.options?.browser === undefined ? {} : { browser: engine }),
+              ...(viewport.name === undefined ? {} : { viewport: viewport.name }),
+              ...(emulation.name === undefined ? {} : { emulation: emulation.name }),
+            });
+          }
+        }
       }
+
+      const maxConcurrency = Math.max(1, plan.options?.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+      const limit = pLimit(maxConcurrency);
+      const runtime: ScanRuntime = {
+        openPages,
+        operation,
+        politeness,
+        scanner: new PageScanner(plan.options, plugins),
+        ...(suppress ? { suppress } : {}),
+      };
+      const jobs = targets
+        ? targets.flatMap((target) => contexts.map((context) => limit(() => scanTarget(target, context, runtime))))
+        : await crawlAndScan(plan, source, contexts, limit, runtime);
+      const urlResults = await Promise.all(jobs);
+
+      return finish(
+        operation,
+        startedAt,
+        urlResults.filter((result) => result !== undefined),
+        suppress,
+      );
     } finally {
-      await browser.close();
+      signal.removeEventListener("abort", closeOpenPages);
+      await Promise.all(contexts.map(({ context }) => context.close()));
+      await Promise.all(browsers.map((browser) => browser.close()));
     }
   } catch (error) {
     operation.emitError({ error: toError(error) });
     throw error;
+  } finally {
+    await source.close();
   }
 }
 
-async function scanTarget(
-  url: string,
-  context: BrowserContext,
-  scanner: PageScanner,
+function finish(
   operation: ScanOperationEmitter,
-): Promise<ScanResult["urlResults"][number]> {
+  startedAt: number,
+  urlResults: ScanResult["urlResults"],
+  suppress?: Suppressor,
+): ScanResult {
+  const browsers = summarizeBy(urlResults, "browser");
+  const viewports = summarizeBy(urlResults, "viewport");
+  const emulations = summarizeBy(urlResults, "emulation");
+  const summary = {
+    duration: Date.now() - startedAt,
+    pagesScanned: urlResults.length,
+    totalFindings: countFindings(urlResults),
+    totalNodes: urlResults.reduce(
+      (total, result) => total + result.findings.reduce((nodes, finding) => nodes + finding.nodes.length, 0),
+      0,
+    ),
+    impacts: countImpacts(urlResults),
+    pagesWithErrors: urlResults.filter((result) => result.error !== undefined).length,
+    pagesWithFindings: urlResults.filter((result) => result.findings.length > 0).length,
+    rules: summarizeRules(urlResults),
+    ...(browsers ? { browsers } : {}),
+    ...(viewports ? { viewports } : {}),
+    ...(emulations ? { emulations } : {}),
+    ...(suppress ? summarizeSuppressions(urlResults) : {}),
+  };
+
+  if (operation.signal.aborted) {
+    operation.emit("cancelled", { summary });
+    return { cancelled: true, summary, urlResults };
+  }
+
+  operation.emit("done", { summary });
+  return { summary, urlResults };
+}
+
+/** Firefox rejects `isMobile`, which device descriptors set, so it is dropped for that engine. */
+function toEngineOptions(engine: BrowserEngine, options: BrowserContextOptions): BrowserContextOptions {
+  if (engine !== "firefox") {
+    return options;
+  }
+
+  const { isMobile: _isMobile, ...supported } = options;
+
+  return supported;
+}
+
+function countFindings(urlResults: ScanResult["urlResults"]): number {
+  return urlResults.reduce((total, result) => total + result.findings.length, 0);
+}
+
+function countImpacts(urlResults: ScanResult["urlResults"]): Record<Severity, number> {
+  const impacts = Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])) as Record<Severity, number>;
+
+  for (const finding of urlResults.flatMap((result) => result.findings)) {
+    impacts[finding.impact] += 1;
+  }
+
+  return impacts;
+}
+
+/**
+ * Rolls findings up per rule, ordered by impact, then node count, then rule id. A page scanned
+ * in several matrix entries counts once towards `pagesAffected`.
+ */
+function summarizeRules(urlResults: ScanResult["urlResults"]): RuleSummary[] {
+  const rules = new Map<string, RuleSummary>();
+  const pages = new Map<string, Set<string>>();
+
+  for (const { findings, url } of urlResults) {
+    for (const { help, id, impact, nodes } of findings) {
+      const rule = rules.get(id) ?? { help, id, impact, nodeCount: 0, pagesAffected: 0 };
+      const rulePages = pages.get(id) ?? new Set<string>();
+
+      rulePages.add(url);
+      rule.impact = SEVERITIES.indexOf(impact) < SEVERITIES.indexOf(rule.impact) ? impact : rule.impact;
+      rule.nodeCount += nodes.length;
+      rule.pagesAffected = rulePages.size;
+      rules.set(id, rule);
+      pages.set(id, rulePages);
+    }
+  }
+
+  return [...rules.values()].sort(
+    (a, b) =>
+      SEVERITIES.indexOf(a.impact) - SEVERITIES.indexOf(b.impact) ||
+      b.nodeCount - a.nodeCount ||
+      a.id.localeCompare(b.id),
+  );
+}
+
+/** Totals pages and findings per matrix entry, or `undefined` when no result carries `key`. */
+function summarizeBy(
+  urlResults: ScanResult["urlResults"],
+  key: "browser" | "viewport" | "emulation",
+): Record<string, SummaryTotals> | undefined {
+  if (!urlResults.some((result) => result[key] !== undefined)) {
+    return undefined;
+  }
+
+  const totals: Record<string, SummaryTotals> = {};
+
+  for (const result of urlResults) {
+    const group = (totals[result[key] ?? ""] ??= { pagesScanned: 0, totalFindings: 0 });
+
+    group.pagesScanned += 1;
+    group.totalFindings += result.findings.length;
+  }
+
+  return totals;
+}
+
+/**
+ * Crawls on the scan contexts so each wanted page is scanned on the navigation that reads its
+ * links. The first context scans pages as the crawl visits them and the other contexts are
+ * queued as each target is recorded. A visited page is scanned, fingerprinted and matched against
+ * suppressions under its `rel=canonical` URL, and only streamed once the crawl records that URL
+ * as a target, so results for duplicate or unwanted canonicals are dropped rather than emitted.
+ */
+async function crawlAndScan(
+  plan: ScanPlan,
+  source: UrlSource,
+  contexts: MatrixContext[],
+  limit: LimitFunction,
+  runtime: ScanRuntime,
+): Promise<Array<Promise<UrlResult | undefined>>> {
+  const [primary, ...others] = contexts;
+  const jobs: Array<Promise<UrlResult | undefined>> = [];
+  const visited = new Map<string, UrlResult>();
+  const scheduled = new Set<string>();
+  const schedule = (target: PageTarget, matrix: MatrixContext[]) => {
+    scheduled.add(target.url);
+    jobs.push(...matrix.map((context) => limit(() => scanTarget(target, context, runtime))));
+  };
+
+  if (!primary) {
+    return jobs;
+  }
+
+  const targets = await source.crawl(plan, {
+    onTarget: (target, visit) => {
+      const result = visited.get(visit.target.url);
+
+      if (result) {
+        runtime.operation.emit("page:done", toPageDonePayload(toPageLocation(result.url, primary), result));
+        jobs.push(Promise.resolve(result));
+      }
+
+      schedule(target, result ? others : contexts);
+    },
+    politeness: runtime.politeness,
+    signal: runtime.operation.signal,
+    visit: (visit, read) => limit(() => visitTarget(visit, read, primary, runtime, visited)),
+  });
+
+  for (const target of targets) {
+    if (!scheduled.has(target.url)) {
+      schedule(target, contexts);
+    }
+  }
+
+  return jobs;
+}
+
+/**
+ * Loads a crawled page on `matrix`, scanning it when the plan wants it. The scan result is left
+ * in `visited` for the crawl to record. A wanted page that fails to load is still reported to
+ * the crawl so its error result is kept.
+ */
+async function visitTarget(
+  { target, wanted }: CrawlVisit,
+  read: (page: Page) => Promise<CrawledPage>,
+  matrix: MatrixContext,
+  runtime: ScanRuntime,
+  visited: Map<string, UrlResult>,
+): Promise<CrawledPage | undefined> {
+  if (!wanted) {
+    return loadTarget(target, read, matrix, runtime);
+  }
+
+  let crawled: CrawledPage | undefined;
+  const result = await scanPage(target, matrix, runtime, async (page) => {
+    crawled = await read(page);
+    return crawled.url;
+  });
+
+  if (result === undefined) {
+    return undefined;
+  }
+
+  visited.set(target.url, result);
+
+  return crawled ?? { links: [], url: target.url };
+}
+
+/** Navigates to a page the crawl only traverses for its links. */
+async function loadTarget(
+  target: PageTarget,
+  read: (page: Page) => Promise<CrawledPage>,
+  { context }: MatrixContext,
+  { openPages, operation, politeness, scanner }: ScanRuntime,
+): Promise<CrawledPage> {
+  await politeness.wait(target.url, operation.signal);
+
+  const page = await context.newPage();
+  openPages.add(page);
+
+  try {
+    await scanner.load(target, page, operation.signal);
+
+    return await read(page);
+  } finally {
+    openPages.delete(page);
+    await page.close();
+  }
+}
+
+/** Resolves to `undefined` when the scan is cancelled before the target completes. */
+async function scanTarget(
+  target: PageTarget,
+  matrix: MatrixContext,
+  runtime: ScanRuntime,
+): Promise<UrlResult | undefined> {
+  const result = await scanPage(target, matrix, runtime);
+
+  if (result) {
+    runtime.operation.emit("page:done", toPageDonePayload(toPageLocation(target.url, matrix), result));
+  }
+
+  return result;
+}
+
+/**
+ * Scans a target like `scanTarget`, leaving its `page:done` event to the caller. When `onLoad`
+ * resolves to another URL, such as the page's canonical URL, the result is reported under it.
+ */
+async function scanPage(
+  target: PageTarget,
+  matrix: MatrixContext,
+  { openPages, operation, politeness, scanner, suppress }: ScanRuntime,
+  onLoad?: (page: Page) => Promise<string>,
+): Promise<UrlResult | undefined> {
+  const { url } = target;
+  const { context } = matrix;
+  const location = toPageLocation(url, matrix);
+  let reportedUrl = url;
+  const load = onLoad && (async (loaded: Page) => (reportedUrl = await onLoad(loaded)));
   let page: Page | undefined;
 
+  if (operation.signal.aborted) {
+    return undefined;
+  }
+
   try {
-    operation.emit("progress", toProgressPayload(url, "fetch"));
+    operation.emit("progress", toProgressPayload(location, "fetch"));
+    await politeness.wait(url, operation.signal);
     page = await context.newPage();
-    operation.emit("progress", toProgressPayload(url, "scan"));
+    openPages.add(page);
 
-    const findings = await scanner.scan(url, page);
-    operation.emit("page:done", toPageDonePayload(url, findings));
+    if (operation.signal.aborted) {
+      return undefined;
+    }
 
-    return { findings, url };
+    operation.emit("progress", toProgressPayload(location, "scan"));
+
+    const scanned = { ...(await scanner.scan(target, page, load, operation.signal)), ...location, url: reportedUrl };
+
+    return suppress ? suppress(scanned) : scanned;
   } catch (error) {
+    if (operation.signal.aborted) {
+      return undefined;
+    }
+
     const normalizedError = toError(error);
 
     operation.emitError({ error: normalizedError, url });
-    operation.emit("page:done", toPageDonePayload(url, []));
 
-    return { error: normalizedError.message, findings: [], url };
+    return { ...toAttempts(error), error: normalizedError.message, findings: [], ...location, url: reportedUrl };
   } finally {
-    await page?.close();
+    if (page) {
+      openPages.delete(page);
+      await page.close();
+    }
   }
 }
 
@@ -124,12 +539,28 @@ function toError(error: unknown): Error {
   return error instanceof Error ? error : new Error(String(error));
 }
 
-function toProgressPayload(url: string, step: ProgressEventPayload["step"]): ProgressEventPayload {
-  return { step, url };
+/** Reads the navigation attempts `PageScanner.scan` attaches to its failures. */
+function toAttempts(error: unknown): { attempts?: number } {
+  return typeof error === "object" && error !== null && "attempts" in error && typeof error.attempts === "number"
+    ? { attempts: error.attempts }
+    : {};
+}
+
+function toPageLocation(url: string, { browser, emulation, viewport }: MatrixContext): PageLocation {
+  return {
+    url,
+    ...(browser === undefined ? {} : { browser }),
+    ...(viewport === undefined ? {} : { viewport }),
+    ...(emulation === undefined ? {} : { emulation }),
+  };
+}
+
+function toProgressPayload(location: PageLocation, step: ProgressEventPayload["step"]): ProgressEventPayload {
+  return { ...location, step };
 }
 
-function toPageDonePayload(url: string, findings: Finding[]): PageDoneEventPayload {
-  return { findingsCount: findings.length, url };
+function toPageDonePayload(location: PageLocation, result: UrlResult): PageDoneEventPayload {
+  return { ...location, findingsCount: result.findings.length, result };
 }
 
 export * from "./core";
@@ -61,6 +61,43 @@ exclude:
     });
   });
 
+  it("maps crawl, sitemap and files source settings from front matter", () => {
+    const crawl = MarkdownParser.parseText(`---
+source:
+  type: crawl
+  seedUrl: https://example.com
+  seedUrls: ["[https://shop.example.com](https://shop.example.com)"]
+  allowedOrigins: ["https://cdn.example.com"]
+  allowedHosts: ["*.example.com"]
+  traverseExcluded: true
+---
+`, "crawl.md");
+    const sitemap = MarkdownParser.parseText(`---
+source: { type: sitemap, url: https://example.com/sitemap.xml, maxDepth: 1, maxSitemaps: 5 }
+---
+`, "sitemap.md");
+    const files = MarkdownParser.parseText(`---
+source: { type: files, glob: ["**/*.html"], root: dist }
+---
+`, "files.md");
+
+    expect(crawl.source).toEqual({
+      allowedHosts: ["*.example.com"],
+      allowedOrigins: ["https://cdn.example.com"],
+      seedUrl: "https://example.com",
+      seedUrls: ["https://shop.example.com"],
+      traverseExcluded: true,
+      type: "crawl",
+    });
+    expect(sitemap.source).toEqual({
+      maxDepth: 1,
+      maxSitemaps: 5,
+      type: "sitemap",
+      url: "https://example.com/sitemap.xml",
+    });
+    expect(files.source).toEqual({ glob: ["**/*.html"], root: "dist", type: "files" });
+  });
+
   it("derives a URL source and attaches JSON and YAML scenarios", async () => {
     const filePath = await writePlan(`# Audit
 - [ ] Product: https://example.com/product
@@ -109,6 +146,27 @@ actions:
     });
   });
 
+  it("keeps action timeouts and rejects invalid ones", () => {
+    const scenario = (actions: string) => `- [ ] Menu: https://example.com/menu
+### Scenario: Open the menu
+\`\`\`json
+{"actions":${actions}}
+\`\`\`
+`;
+
+    expect(
+      MarkdownParser.parseText(scenario('[{"type":"click","selector":"#menu","timeout":5000}]'), "plan.md").targets,
+    ).toEqual([
+      { actions: [{ selector: "#menu", timeout: 5000, type: "click" }], name: "Menu", url: "https://example.com/menu" },
+    ]);
+    expect(() =>
+      MarkdownParser.parseText(scenario('[{"type":"click","selector":"#menu","timeout":-1}]'), "plan.md"),
+    ).toThrow("Invalid click action 1 timeout in plan.md");
+    expect(() =>
+      MarkdownParser.parseText(scenario('[{"type":"wait","selectorOrMs":"#menu","timeout":"soon"}]'), "plan.md"),
+    ).toThrow("Invalid wait action 1 timeout in plan.md");
+  });
+
   it("attaches a scenario without a Target line to the preceding task", async () => {
     const filePath = await writePlan(`- [ ] Menu: https://example.com/menu
 ### Scenario: Open the menu
@@ -150,17 +150,21 @@ export class MarkdownParser {
       if (!this.isRecord(action) || typeof action.type !== "string") {
         throw new Error(`Invalid action ${index + 1} in ${filePath}`);
       }
+      if (action.timeout !== undefined && (typeof action.timeout !== "number" || action.timeout < 0)) {
+        throw new Error(`Invalid ${action.type} action ${index + 1} timeout in ${filePath}`);
+      }
+      const timeout = typeof action.timeout === "number" ? { timeout: action.timeout } : {};
       if (action.type === "click" && typeof action.selector === "string") {
-        return { selector: action.selector, type: "click" };
+        return { selector: action.selector, type: "click", ...timeout };
       }
       if (
         action.type === "wait"
         && (typeof action.selectorOrMs === "string" || typeof action.selectorOrMs === "number")
       ) {
-        return { selectorOrMs: action.selectorOrMs, type: "wait" };
+        return { selectorOrMs: action.selectorOrMs, type: "wait", ...timeout };
       }
       if (action.type === "fill" && typeof action.selector === "string" && typeof action.value === "string") {
-        return { selector: action.selector, type: "fill", value: action.value };
+        return { selector: action.selector, type: "fill", value: action.value, ...timeout };
       }
       throw new Error(`Invalid ${action.type} action ${index + 1} in ${filePath}`);
     });
@@ -173,15 +177,28 @@ export class MarkdownParser {
 
     switch (value.type) {
       case "sitemap":
-        if (typeof value.url === "string") return { type: "sitemap", url: this.unwrapMarkdownUrl(value.url) };
+        if (typeof value.url === "string") {
+          return {
+            type: "sitemap",
+            url: this.unwrapMarkdownUrl(value.url),
+            ...(typeof value.maxDepth === "number" ? { maxDepth: value.maxDepth } : {}),
+            ...(typeof value.maxSitemaps === "number" ? { maxSitemaps: value.maxSitemaps } : {}),
+          };
+        }
         break;
       case "crawl":
         if (typeof value.seedUrl === "string") {
           return {
             type: "crawl",
             seedUrl: this.unwrapMarkdownUrl(value.seedUrl),
+            ...(this.isStringArray(value.seedUrls)
+              ? { seedUrls: value.seedUrls.map((url) => this.unwrapMarkdownUrl(url)) }
+              : {}),
+            ...(this.isStringArray(value.allowedOrigins) ? { allowedOrigins: value.allowedOrigins } : {}),
+            ...(this.isStringArray(value.allowedHosts) ? { allowedHosts: value.allowedHosts } : {}),
             ...(typeof value.maxDepth === "number" ? { maxDepth: value.maxDepth } : {}),
             ...(typeof value.maxPages === "number" ? { maxPages: value.maxPages } : {}),
+            ...(typeof value.traverseExcluded === "boolean" ? { traverseExcluded: value.traverseExcluded } : {}),
           };
         }
         break;
@@ -191,8 +208,16 @@ export class MarkdownParser {
         }
         break;
       case "files":
-        if (Array.isArray(value.glob) && value.glob.every((glob) => typeof glob === "string")) {
-          return { glob: value.glob, type: "files" };
+        if (
+          Array.isArray(value.glob)
+          && value.glob.every((glob) => typeof glob === "string")
+          && (value.root === undefined || typeof value.root === "string")
+        ) {
+          return {
+            glob: value.glob,
+            type: "files",
+            ...(typeof value.root === "string" ? { root: value.root } : {}),
+          };
         }
         break;
     }
@@ -240,6 +265,10 @@ export class MarkdownParser {
     return value.match(/^\[[^\]]*\]\((https?:\/\/[^\s)]+)\)$/i)?.[1] ?? value;
   }
 
+  private static isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+
   private static isRecord(value: unknown): value is UnknownRecord {
     return typeof value === "object" && value !== null && !Array.isArray(value);
   }
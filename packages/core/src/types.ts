@@ -1,23 +1,168 @@
 import { Page } from "@playwright/test";
-import { Result } from "axe-core";
+import { Check, Result, Rule } from "axe-core";
 import type { EventEmitter } from "node:events";
 
 export type Severity = "critical" | "serious" | "moderate" | "minor";
 
 export type InputSource =
-  | { type: "sitemap"; url: string }
-  | { type: "crawl"; seedUrl: string; maxDepth?: number; maxPages?: number }
+  | {
+      type: "sitemap";
+      url: string;
+      /** How many levels of nested sitemap indexes are followed; defaults to 3 */
+      maxDepth?: number;
+      /** How many sitemap files are fetched in total, including indexes; defaults to 50 */
+      maxSitemaps?: number;
+    }
+  | {
+      type: "crawl";
+      seedUrl: string;
+      /** Further seeds crawled alongside `seedUrl`; their origins are allowed as well */
+      seedUrls?: string[];
+      /** Origin patterns such as `https://*.example.com` whose links are followed besides the seed origins */
+      allowedOrigins?: string[];
+      /** Host name patterns such as `*.example.com` whose links are followed over HTTP(S) besides the seed origins */
+      allowedHosts?: string[];
+      maxDepth?: number;
+      /** Counts only pages kept by `ScanPlan.include` and `ScanPlan.exclude` */
+      maxPages?: number;
+      /** Whether pages the include/exclude patterns reject are still loaded to follow their links; defaults to true */
+      traverseExcluded?: boolean;
+    }
   | { type: "urls"; targets: string[] }
-  | { type: "files"; glob: string[] };
+  | {
+      type: "files";
+      glob: string[];
+      /** Directory served to the browser; defaults to the deepest directory shared by every glob */
+      root?: string;
+    };
 
+/** `timeout` overrides `ScanOptions.actionTimeout` for a single action, in milliseconds. */
 export type DOMAction =
-  | { type: "click"; selector: string }
-  | { type: "wait"; selectorOrMs: string | number }
-  | { type: "fill"; selector: string; value: string };
+  | { type: "click"; selector: string; timeout?: number }
+  | { type: "wait"; selectorOrMs: string | number; timeout?: number }
+  | { type: "fill"; selector: string; value: string; timeout?: number };
+
+export interface NavigationOptions {
+  /** Load state reached before the page is considered loaded; defaults to `"domcontentloaded"` */
+  waitUntil?: "load" | "domcontentloaded" | "networkidle";
+  /** Selector that must become visible before actions and axe run, such as a hydrated app root */
+  waitForSelector?: string;
+  /** Extra time, in milliseconds, to wait once the page is ready */
+  settleDelay?: number;
+  /** Time, in milliseconds, allowed for navigation and for `waitForSelector`; defaults to Playwright's 30 seconds */
+  timeout?: number;
+  /** Retries navigation after timeouts and network errors */
+  retry?: {
+    /** Total navigation attempts per page, including the first; defaults to 1 */
+    attempts?: number;
+    /** Delay, in milliseconds, before the first retry; doubled for each further retry. Defaults to 1000 */
+    backoff?: number;
+  };
+}
+
+/**
+ * One entry of `ScanOptions.viewports`: the name of a Playwright device descriptor such as
+ * `"iPhone 13"`, a named size, or a device registered under a custom name.
+ */
+export type ViewportOption =
+  | string
+  | { name: string; width: number; height: number; isMobile?: boolean; hasTouch?: boolean; deviceScaleFactor?: number }
+  | { name: string; device: string };
+
+/** Browser context settings that change how pages render, such as a dark color scheme. */
+export interface EmulationOptions {
+  /** Identifies the variant on URL results; required when `ScanOptions.emulation` is a list */
+  name?: string;
+  colorScheme?: "light" | "dark" | "no-preference";
+  forcedColors?: "active" | "none";
+  reducedMotion?: "reduce" | "no-preference";
+  /** BCP 47 locale such as `"pt-PT"` */
+  locale?: string;
+  /** IANA time zone such as `"Europe/Lisbon"` */
+  timezoneId?: string;
+  /** Overrides the user agent, including one set by a device in `ScanOptions.viewports` */
+  userAgent?: string;
+}
+
+export type BrowserEngine = "chromium" | "firefox" | "webkit";
+
+/**
+ * Where `ScanOptions.screenshots` images go. Each image is referenced from the result by its
+ * absolute file path, or embedded as a PNG data URL when `outputDir` is not set.
+ */
+export interface ScreenshotOptions {
+  /** Directory the PNG files are written to */
+  outputDir?: string;
+  /** Pixels of the surrounding page kept around each highlighted element; defaults to 16 */
+  padding?: number;
+}
+
+/** Limits how hard the crawl and the scan load the audited site. */
+export interface PolitenessOptions {
+  /** User agent sent by the crawl, the scan and robots.txt requests, and matched against robots.txt groups */
+  userAgent?: string;
+  /** Skips URLs robots.txt disallows for `userAgent` and waits its `Crawl-delay` between requests */
+  respectRobotsTxt?: boolean;
+  /** Minimum time, in milliseconds, between two page loads on the same host */
+  hostDelay?: number;
+}
 
 export interface ScanOptions {
+  /** Playwright engine to scan with; a list scans every target once per engine. Defaults to Chromium */
+  browser?: BrowserEngine | BrowserEngine[];
   maxConcurrency?: number;
   viewport?: { width: number; height: number };
+  /** Scans every target once per entry, replacing `viewport` for the scan */
+  viewports?: ViewportOption[];
+  /** Applied to every page; a list scans every target once per entry and viewport */
+  emulation?: EmulationOptions | EmulationOptions[];
+  /** Default time, in milliseconds, each `PageTarget.actions` entry may wait for its selector */
+  actionTimeout?: number;
+  /** How each page is loaded before actions and axe run */
+  navigation?: NavigationOptions;
+  /** axe-core rule selection shared by every target; `PageTarget.rules` overrides it per page */
+  axe?: AxeConfig;
+  /** Robots.txt, request rate and user agent settings for the crawl and the scan */
+  politeness?: PolitenessOptions;
+  /** Captures each page and a highlighted clip of every finding node */
+  screenshots?: ScreenshotOptions;
+  /** axe outcomes recorded on each URL result in addition to violations */
+  outcomes?: {
+    incomplete?: boolean;
+    passes?: boolean;
+    inapplicable?: boolean;
+  };
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+  /** Either `url`, or `domain` and `path`, scopes the cookie */
+  url?: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/**
+ * Credentials applied to the crawl and scan browser contexts. Any `${env:NAME}` in the login URL,
+ * `fill` values, cookie values and header values is replaced with the `NAME` environment variable,
+ * so secrets never need to be written into the plan.
+ */
+export interface AuthConfig {
+  /** Path to a Playwright storage state file holding cookies and local storage */
+  storageState?: string;
+  /** Login flow run once, before crawling, in a context that already has the other settings */
+  login?: {
+    url: string;
+    actions: DOMAction[];
+  };
+  cookies?: AuthCookie[];
+  /** HTTP headers sent with every request */
+  headers?: Record<string, string>;
 }
 
 export interface PageTarget {
@@ -25,23 +170,98 @@ export interface PageTarget {
   name?: string;
   /** Optional interactive pre-conditions executed via Playwright before running axe-core */
   actions?: DOMAction[];
-  /** Overrides global rule settings for this target */
+  /** Overrides `ScanOptions.axe` rule settings for this target */
   rules?: Record<string, { enabled: boolean }>;
+  /** `lastmod`, `changefreq` and `priority` of the sitemap entry the target was read from */
+  sitemap?: SitemapMetadata;
+}
+
+export type SitemapMetadata = Pick<SitemapEntry, "lastModified" | "changeFrequency" | "priority">;
+
+/** How page URLs are rewritten before they are deduplicated, filtered and scanned. */
+export interface CanonicalizationOptions {
+  /** Query parameter names to remove, as globs such as `utm_*`; matched case-insensitively */
+  stripParams?: string[];
+  /** Sorts the remaining query parameters by name */
+  sortQuery?: boolean;
+  /** Removes every query string; takes precedence over `stripParams` and `sortQuery` */
+  dropQuery?: boolean;
+  /** Adds or removes the trailing slash of paths; defaults to `keep` */
+  trailingSlash?: "keep" | "add" | "remove";
+  /** Records a crawled page under its same-origin `<link rel="canonical">` URL */
+  relCanonical?: boolean;
 }
 
 export interface ScanPlan {
   name?: string;
   source: InputSource;
+  auth?: AuthConfig;
+  /** Pathname globs; text after a `?` lists `name` or `name=glob` query parameters that must also match */
   include?: string[];
   exclude?: string[];
+  canonicalization?: CanonicalizationOptions;
   options?: ScanOptions;
   targets?: PageTarget[];
+  /** Path to a baseline file written by `createBaseline`; its findings are marked as known */
+  baseline?: string;
+  /** Known findings to mark as suppressed instead of reporting them as new */
+  suppressions?: Suppression[];
+}
+
+/** Accepted findings, recorded by the fingerprints of their failing elements. */
+export interface Baseline {
+  version: 1;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** Sorted `FindingNode.fingerprint` values */
+  fingerprints: string[];
 }
 
+/** Marks matching violations as known. `*` in the patterns matches any run of characters. */
+export interface Suppression {
+  /** Rule id pattern, such as `color-contrast` */
+  ruleId: string;
+  /** Page URL pattern; a pattern starting with `/` is matched against the pathname only */
+  url?: string;
+  /** Selector pattern, matched against `FindingNode.target` joined with ` >> ` */
+  selector?: string;
+  /** Date or timestamp after which the suppression no longer applies; a date covers that whole UTC day */
+  expires?: string;
+  reason: string;
+}
+
+/** Why a node was marked as known. */
+export type SuppressionMatch =
+  | { source: "baseline" }
+  | { source: "suppression"; reason: string; expires?: string };
+
 export interface FindingNode {
   html: string;
   target: string[];
   failureSummary?: string;
+  /** Stable identity of this element's failure across scans; see `Finding.fingerprint` */
+  fingerprint?: string;
+  /** Highlighted clip of the element; requires `ScanOptions.screenshots` */
+  screenshot?: string;
+  /** Set when the baseline or a suppression matches the element */
+  suppressed?: SuppressionMatch;
+}
+
+export type WcagLevel = "A" | "AA" | "AAA";
+
+export type WcagVersion = "2.0" | "2.1" | "2.2";
+
+export type WcagPrinciple = "Perceivable" | "Operable" | "Understandable" | "Robust";
+
+/** A WCAG 2.x success criterion. */
+export interface WcagCriterion {
+  /** Criterion number, such as `1.4.3` */
+  id: string;
+  title: string;
+  level: WcagLevel;
+  /** WCAG version that introduced the criterion */
+  version: WcagVersion;
+  principle: WcagPrinciple;
 }
 
 export interface Finding {
@@ -51,30 +271,193 @@ export interface Finding {
   description: string;
   help: string;
   helpUrl: string;
+  /** Success criteria decoded from `tags`; set by `normalizeAxeResult`, empty for rules outside WCAG */
+  wcag?: WcagCriterion[];
+  /**
+   * Stable identity of the rule failing on the page's path template, as 16 hex characters.
+   * Set by `normalizeAxeResult`; absent on results produced by older versions.
+   */
+  fingerprint?: string;
+  /** True when every node is suppressed */
+  suppressed?: boolean;
+  /** Name of the `AxePlugin` that registered the rule; absent for axe-core's own rules */
+  source?: string;
   nodes: FindingNode[];
 }
 
+export interface PassedRule {
+  id: string;
+  /** Number of elements that passed the rule */
+  nodeCount: number;
+  /** Success criteria the rule checks; see `Finding.wcag` */
+  wcag?: WcagCriterion[];
+}
+
+/** Totals of one failing axe rule across a scan. */
+export interface RuleSummary {
+  id: string;
+  help: string;
+  /** Most severe impact the rule was reported with */
+  impact: Severity;
+  /** Distinct page URLs the rule failed on, however many matrix entries scanned them */
+  pagesAffected: number;
+  /** Failing elements across the URL results the rule failed on */
+  nodeCount: number;
+}
+
+export interface SummaryTotals {
+  pagesScanned: number;
+  totalFindings: number;
+}
+
 export interface ScanResult {
+  /** Set when the scan was cancelled; `urlResults` then holds only the pages completed before cancellation */
+  cancelled?: boolean;
   summary: {
     duration: number;
     pagesScanned: number;
     totalFindings: number;
+    /** Failing elements across all findings; absent on results produced by older versions, like the fields below */
+    totalNodes?: number;
+    /** Findings per impact, with every severity present */
+    impacts?: Record<Severity, number>;
+    pagesWithErrors?: number;
+    pagesWithFindings?: number;
+    /** Failing rules, most severe first, then by node count */
+    rules?: RuleSummary[];
+    /** Totals per engine; present when `ScanOptions.browser` is set */
+    browsers?: Record<string, SummaryTotals>;
+    /** Totals per viewport name; present when `ScanOptions.viewports` is set */
+    viewports?: Record<string, SummaryTotals>;
+    /** Totals per emulation name; present when `ScanOptions.emulation` is a list */
+    emulations?: Record<string, SummaryTotals>;
+    /** Findings with at least one unsuppressed node; present when the plan sets a baseline or suppressions */
+    newFindings?: number;
+    /** Findings whose every node is suppressed; present alongside `newFindings` */
+    knownFindings?: number;
   };
   urlResults: Array<{
     url: string;
+    /** Engine the page was scanned with; present when `ScanOptions.browser` is set */
+    browser?: BrowserEngine;
+    /** Name of the `ScanOptions.viewports` entry the page was scanned with */
+    viewport?: string;
+    /** Name of the `ScanOptions.emulation` entry the page was scanned with */
+    emulation?: string;
     findings: Finding[];
+    /** Needs-review items axe could not decide automatically; requires `ScanOptions.outcomes.incomplete` */
+    incomplete?: Finding[];
+    /** Rules that passed; requires `ScanOptions.outcomes.passes` */
+    passes?: PassedRule[];
+    /** Ids of rules that matched no elements; requires `ScanOptions.outcomes.inapplicable` */
+    inapplicable?: string[];
+    /** Navigation attempts made for the page, including retries */
+    attempts?: number;
+    /** Full-page screenshot; requires `ScanOptions.screenshots` */
+    screenshot?: string;
     error?: string;
   }>;
 }
 
+/** Outcome of scanning one target in one browser, viewport and emulation combination. */
+export type UrlResult = ScanResult["urlResults"][number];
+
+/** A page result of a compared scan, identified by its URL and scan matrix entry. */
+export interface ScanDiffPage {
+  url: string;
+  browser?: BrowserEngine;
+  viewport?: string;
+  emulation?: string;
+  error?: string;
+}
+
+/** One failing element of a compared scan, matched across scans by its page, rule and selector. */
+export interface ScanDiffFinding extends Omit<ScanDiffPage, "error"> {
+  ruleId: string;
+  impact: Severity;
+  help: string;
+  helpUrl: string;
+  /** The element as reported by the later scan, or by the earlier one for fixed findings */
+  node: FindingNode;
+}
+
+/** What changed between two scans; see `diffScanResults`. */
+export interface ScanDiff {
+  summary: {
+    newFindings: number;
+    fixedFindings: number;
+    unchangedFindings: number;
+    pagesAdded: number;
+    pagesRemoved: number;
+    pagesNewlyErroring: number;
+  };
+  /** Failing elements of the later scan that the earlier scan did not report */
+  newFindings: ScanDiffFinding[];
+  /** Failing elements of the earlier scan that no longer fail on a page the later scan loaded */
+  fixedFindings: ScanDiffFinding[];
+  unchangedFindings: ScanDiffFinding[];
+  pagesAdded: ScanDiffPage[];
+  pagesRemoved: ScanDiffPage[];
+  /** Pages that loaded in the earlier scan and failed in the later one, with the later error */
+  pagesNewlyErroring: ScanDiffPage[];
+}
+
+export type ConformanceStatus = "Supports" | "Partially Supports" | "Does Not Support" | "Not Evaluated";
+
+/** One row of a conformance report. */
+export interface ConformanceCriterion extends WcagCriterion {
+  status: ConformanceStatus;
+  remarks: string;
+  /** Rules that failed on at least one evaluated page */
+  failedRules: string[];
+  /** Rules that passed on at least one evaluated page */
+  passedRules: string[];
+  /** Rules with items axe could not decide */
+  reviewRules: string[];
+  /** Evaluated pages with at least one violation of the criterion */
+  pagesFailed: number;
+}
+
+/** An ACR/VPAT-style account of a scan against the WCAG level A and AA success criteria. */
+export interface ConformanceReport {
+  title: string;
+  wcagVersion: WcagVersion;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** URL results that loaded; pages that failed to load are not evaluated */
+  pagesEvaluated: number;
+  criteria: ConformanceCriterion[];
+}
+
+export interface ConformanceOptions {
+  /** Defaults to `Accessibility Conformance Report` */
+  title?: string;
+  /** Defaults to `2.2` */
+  wcagVersion?: WcagVersion;
+  createdAt?: Date;
+  /** Status and remarks per criterion id, such as the outcome of manual testing; they replace the derived ones */
+  criteria?: Record<string, { status?: ConformanceStatus; remarks?: string }>;
+}
+
+/** Outcome of auditing one page, before it is attributed to a URL. */
+export type PageScanResult = Omit<UrlResult, "url" | "browser" | "viewport" | "emulation" | "error">;
+
 export interface ProgressEventPayload {
   url: string;
+  browser?: BrowserEngine;
+  viewport?: string;
+  emulation?: string;
   step: "fetch" | "scan";
 }
 
 export interface PageDoneEventPayload {
   url: string;
+  browser?: BrowserEngine;
+  viewport?: string;
+  emulation?: string;
   findingsCount: number;
+  /** The complete result of the page, as it will appear in `ScanResult.urlResults` */
+  result: UrlResult;
 }
 
 export interface ErrorEventPayload {
@@ -86,15 +469,32 @@ export interface DoneEventPayload {
   summary: ScanResult["summary"];
 }
 
-export interface ScanOperation extends Promise<ScanResult>, EventEmitter {
+export interface CancelledEventPayload {
+  summary: ScanResult["summary"];
+}
+
+export interface ScanRunOptions {
+  /** Cancels the scan when aborted, like `ScanOperation.cancel()` */
+  signal?: AbortSignal;
+}
+
+/**
+ * A running scan. Awaiting it yields the final `ScanResult`; iterating it with `for await`
+ * yields each page's result as soon as the page completes.
+ */
+export interface ScanOperation extends Promise<ScanResult>, EventEmitter, AsyncIterable<UrlResult> {
+  /** Stops queued targets, closes open pages and the browser, and resolves with a partial result */
+  cancel(): void;
   on(event: "progress", listener: (payload: ProgressEventPayload) => void): this;
   on(event: "page:done", listener: (payload: PageDoneEventPayload) => void): this;
   on(event: "error", listener: (payload: ErrorEventPayload) => void): this;
   on(event: "done", listener: (payload: DoneEventPayload) => void): this;
+  on(event: "cancelled", listener: (payload: CancelledEventPayload) => void): this;
   once(event: "progress", listener: (payload: ProgressEventPayload) => void): this;
   once(event: "page:done", listener: (payload: PageDoneEventPayload) => void): this;
   once(event: "error", listener: (payload: ErrorEventPayload) => void): this;
   once(event: "done", listener: (payload: DoneEventPayload) => void): this;
+  once(event: "cancelled", listener: (payload: CancelledEventPayload) => void): this;
 }
 
 export interface SitemapConfig {
@@ -155,8 +555,36 @@ export interface TestResults {
 }
 
 export interface AxeConfig {
+  /** @deprecated Use `runOnly`. */
   rules?: string[];
+  /** Tags to run. Defaults to WCAG 2.0 and 2.1 level A and AA. */
   tags?: string[];
+  /** Runs only these rule ids; `tags`, `wcag22` and `bestPractices` are ignored when set */
+  runOnly?: string[];
+  /** Rule ids to run in addition to the selected tags */
+  enabledRules?: string[];
+  /** Rule ids to skip */
+  disabledRules?: string[];
+  /** Adds axe's `best-practice` rules to the selected tags */
+  bestPractices?: boolean;
+  /** Adds the WCAG 2.2 level A and AA tags to the selected tags */
+  wcag22?: boolean;
+  /**
+   * Paths of local modules whose default export is an `AxePlugin`, relative to the working directory.
+   * Plugin rules run in addition to the selected rules unless `disabledRules` or a target turns them off.
+   */
+  plugins?: string[];
+}
+
+/**
+ * Custom rules and checks registered with `axe.configure` before each page is analyzed. Check and
+ * rule functions are sent to the browser as source, so they cannot use variables from their module.
+ */
+export interface AxePlugin {
+  /** Reported as the `source` of the plugin's findings */
+  name: string;
+  rules?: Rule[];
+  checks?: Check[];
 }
 
 export interface OutputConfig {
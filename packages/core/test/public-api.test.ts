@@ -1,9 +1,10 @@
 import { describe, expect, it } from "vitest";
 
-import { PageScanner, UrlSource } from "../src/index.ts";
+import { AuthSession, PageScanner, UrlSource } from "../src/index.ts";
 
 describe("core public API", () => {
   it("exports the supported library classes", () => {
+    expect(AuthSession).toBeTypeOf("function");
     expect(PageScanner).toBeTypeOf("function");
     expect(UrlSource).toBeTypeOf("function");
   });
@@ -1,7 +1,36 @@
 import type { ScanResult } from "@a11y-page-checker/core";
-import { describe, expect, it } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
 
-import { createUrlPlan, toToolResult } from "./index.js";
+import { createMcpServer, createUrlPlan, toToolResult } from "./index.js";
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map((directory) => rm(directory, { recursive: true, force: true })));
+});
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "0.0.0" });
+
+  await createMcpServer().connect(serverTransport);
+  await client.connect(clientTransport);
+
+  try {
+    return await client.callTool({ arguments: args, name });
+  } finally {
+    await client.close();
+  }
+}
+
+function createResult(urlResults: ScanResult["urlResults"]): ScanResult {
+  return { summary: { duration: 1, pagesScanned: urlResults.length, totalFindings: 0 }, urlResults };
+}
 
 describe("createUrlPlan", () => {
   it("creates a crawl plan and preserves maxDepth", () => {
@@ -34,3 +63,58 @@ describe("toToolResult", () => {
     });
   });
 });
+
+describe("diff_scan_results", () => {
+  it("compares two scan result files", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-mcp-"));
+    directories.push(directory);
+    const beforePath = path.join(directory, "before.json");
+    const afterPath = path.join(directory, "after.json");
+    const finding = {
+      description: "",
+      help: "Images must have alternate text",
+      helpUrl: "https://dequeuniversity.com/rules/axe/image-alt",
+      id: "image-alt",
+      impact: "critical" as const,
+      nodes: [{ html: "<img>", target: ["img"] }],
+      tags: [],
+    };
+
+    await writeFile(beforePath, JSON.stringify(createResult([{ findings: [finding], url: "https://example.com/" }])));
+    await writeFile(
+      afterPath,
+      JSON.stringify(
+        createResult([
+          { findings: [], url: "https://example.com/" },
+          { findings: [], url: "https://example.com/about" },
+        ]),
+      ),
+    );
+
+    const result = await callTool("diff_scan_results", { afterPath, beforePath });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      fixedFindings: [{ node: { target: ["img"] }, ruleId: "image-alt", url: "https://example.com/" }],
+      pagesAdded: [{ url: "https://example.com/about" }],
+      summary: { fixedFindings: 1, newFindings: 0, pagesAdded: 1 },
+    });
+  });
+
+  it("reports files that are not scan results as tool errors", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-mcp-"));
+    directories.push(directory);
+    const beforePath = path.join(directory, "before.json");
+    const afterPath = path.join(directory, "after.json");
+
+    await writeFile(beforePath, JSON.stringify(createResult([])));
+    await writeFile(afterPath, JSON.stringify({ pages: [] }));
+
+    const result = await callTool("diff_scan_results", { afterPath, beforePath });
+
+    expect(result).toMatchObject({
+      content: [{ text: expect.stringContaining(`Invalid scan result file: ${afterPath}`), type: "text" }],
+      isError: true,
+    });
+  });
+});
@@ -1,9 +1,13 @@
 #!/usr/bin/env node
 import {
   MarkdownParser,
+  diffScanResults,
+  readScanResult,
   scan,
+  type ScanDiff,
   type ScanPlan,
   type ScanResult,
+  type ScanRunOptions,
 } from "@a11y-page-checker/core";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
@@ -12,7 +16,8 @@ import { z } from "zod";
 
 interface McpDependencies {
   parseMarkdownPlan?: (filePath: string) => Promise<ScanPlan>;
-  runScan?: (plan: ScanPlan) => PromiseLike<ScanResult>;
+  readScanResult?: (filePath: string) => Promise<ScanResult>;
+  runScan?: (plan: ScanPlan, options?: ScanRunOptions) => PromiseLike<ScanResult>;
 }
 
 const auditUrlInput = {
@@ -24,9 +29,15 @@ const auditMarkdownPlanInput = {
   filePath: z.string().min(1).describe("Path to a Markdown scan plan"),
 };
 
+const diffScanResultsInput = {
+  afterPath: z.string().min(1).describe("Path to the later JSON scan result"),
+  beforePath: z.string().min(1).describe("Path to the earlier JSON scan result"),
+};
+
 export function createMcpServer(dependencies: McpDependencies = {}): McpServer {
   const runScan = dependencies.runScan ?? scan;
   const parseMarkdownPlan = dependencies.parseMarkdownPlan ?? MarkdownParser.parse.bind(MarkdownParser);
+  const readResult = dependencies.readScanResult ?? readScanResult;
   const server = new McpServer({ name: "@a11y-page-checker/mcp", version: "0.0.0" });
 
   server.registerTool(
@@ -35,7 +46,7 @@ export function createMcpServer(dependencies: McpDependencies = {}): McpServer {
       description: "Audit an HTTP(S) URL and return its normalized accessibility scan result",
       inputSchema: auditUrlInput,
     },
-    async ({ maxDepth, url }) => toToolResult(await runScan(createUrlPlan(url, maxDepth))),
+    async ({ maxDepth, url }, { signal }) => toToolResult(await runScan(createUrlPlan(url, maxDepth), { signal })),
   );
 
   server.registerTool(
@@ -44,7 +55,17 @@ export function createMcpServer(dependencies: McpDependencies = {}): McpServer {
       description: "Execute a Markdown accessibility scan plan and return its normalized scan result",
       inputSchema: auditMarkdownPlanInput,
     },
-    async ({ filePath }) => toToolResult(await runScan(await parseMarkdownPlan(filePath))),
+    async ({ filePath }, { signal }) => toToolResult(await runScan(await parseMarkdownPlan(filePath), { signal })),
+  );
+
+  server.registerTool(
+    "diff_scan_results",
+    {
+      description: "Compare two JSON scan results and return new, fixed and unchanged findings and page changes",
+      inputSchema: diffScanResultsInput,
+    },
+    async ({ afterPath, beforePath }) =>
+      toToolResult(diffScanResults(await readResult(beforePath), await readResult(afterPath))),
   );
 
   return server;
@@ -65,7 +86,7 @@ export function createUrlPlan(url: string, maxDepth?: number): ScanPlan {
   };
 }
 
-export function toToolResult(result: ScanResult) {
+export function toToolResult(result: ScanResult | ScanDiff) {
   return {
     content: [{ text: JSON.stringify(result), type: "text" as const }],
     structuredContent: { ...result },
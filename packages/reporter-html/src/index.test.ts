@@ -1,11 +1,19 @@
 import { mkdtemp, readFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
 
-import type { ScanResult } from "@a11y-page-checker/core";
+import type { ConformanceReport, ScanDiff, ScanResult, WcagCriterion } from "@a11y-page-checker/core";
 import { describe, expect, it } from "vitest";
 
-import { generateHtmlReport, renderHtmlReport } from "./index.js";
+import {
+  generateConformanceReport,
+  generateDiffReport,
+  generateHtmlReport,
+  renderConformanceReport,
+  renderDiffReport,
+  renderHtmlReport,
+} from "./index.js";
 
 const result: ScanResult = {
   summary: { duration: 1250, pagesScanned: 2, totalFindings: 1 },
@@ -34,6 +42,182 @@ describe("generateHtmlReport", () => {
 
     expect(html).toContain("Total findings");
     expect(html).toContain("&lt;img src&#x3D;&quot;logo.png&quot;&gt;");
+    expect(html).not.toContain("Items needing review");
+  });
+
+  it("lists needs-review items separately when incomplete results were captured", async () => {
+    const html = await renderHtmlReport({
+      ...result,
+      urlResults: [
+        {
+          url: "https://example.com/",
+          findings: [],
+          incomplete: [
+            {
+              id: "color-contrast",
+              impact: "serious",
+              tags: ["wcag2aa"],
+              description: "Elements must meet minimum color contrast ratio thresholds",
+              help: "Check the contrast manually",
+              helpUrl: "https://dequeuniversity.com/rules/axe/color-contrast",
+              nodes: [{ html: '<h1 class="hero">Sale</h1>', target: [".hero"] }],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(html).toContain("Items needing review");
+    expect(html).toContain('<h4 class="page__review__title">Needs review</h4>');
+    expect(html).toContain("Elements must meet minimum color contrast ratio thresholds");
+  });
+
+  it("labels each page with its viewport and totals findings per viewport", async () => {
+    const html = await renderHtmlReport({
+      summary: {
+        ...result.summary,
+        viewports: {
+          desktop: { pagesScanned: 1, totalFindings: 1 },
+          "iPhone 13": { pagesScanned: 1, totalFindings: 0 },
+        },
+      },
+      urlResults: [
+        { ...result.urlResults[0], viewport: "desktop" },
+        { url: "https://example.com/?one=1&two=2", findings: [], viewport: "iPhone 13" },
+      ],
+    });
+
+    expect(html).toContain("<dt>Findings on desktop</dt>");
+    expect(html).toContain("<dt>Findings on iPhone 13</dt>");
+    expect(html).toContain('<sl-badge variant="neutral" class="page__variant">iPhone 13</sl-badge>');
+  });
+
+  it("counts new and known findings and tags suppressed findings as known", async () => {
+    const [page, failed] = result.urlResults;
+    const html = await renderHtmlReport({
+      summary: { ...result.summary, knownFindings: 1, newFindings: 0 },
+      urlResults: [{ ...page, findings: page.findings.map((finding) => ({ ...finding, suppressed: true })) }, failed],
+    });
+
+    expect(html).toContain("<dt>New findings</dt>");
+    expect(html).toContain("<dt>Known findings</dt>");
+    expect(html).toContain('<sl-tag size="small" variant="neutral" class="page__violation__known">known</sl-tag>');
+    expect(await renderHtmlReport(result)).not.toContain("Known findings");
+  });
+
+  it("tags findings of plugin rules with the plugin name", async () => {
+    const [page, failed] = result.urlResults;
+    const html = await renderHtmlReport({
+      ...result,
+      urlResults: [
+        { ...page, findings: page.findings.map((finding) => ({ ...finding, source: "house-rules" })) },
+        failed,
+      ],
+    });
+
+    expect(html).toContain(
+      '<sl-tag size="small" variant="neutral" class="page__violation__source">house-rules rule</sl-tag>',
+    );
+    expect(await renderHtmlReport(result)).not.toContain("page__violation__source");
+  });
+
+  it("reads page and element totals from the summary", async () => {
+    const html = await renderHtmlReport({
+      ...result,
+      summary: {
+        ...result.summary,
+        impacts: { critical: 1, minor: 0, moderate: 0, serious: 0 },
+        pagesWithErrors: 1,
+        pagesWithFindings: 1,
+        totalNodes: 4,
+      },
+    });
+
+    expect(html).toContain("<dt>Affected elements</dt>");
+    expect(html).toContain('<sl-badge variant="neutral" pill="">4</sl-badge>');
+    expect(html).toContain("<dt>Pages with errors</dt>");
+    expect(html).toContain("<dt>Findings with critical impact</dt>");
+  });
+
+  it("groups violations by WCAG success criterion", async () => {
+    const perceivable = { principle: "Perceivable", version: "2.0" } as const;
+    const contrast: WcagCriterion = { ...perceivable, id: "1.4.3", level: "AA", title: "Contrast (Minimum)" };
+    const nonText: WcagCriterion = { ...perceivable, id: "1.1.1", level: "A", title: "Non-text Content" };
+    const [page, failed] = result.urlResults;
+    const html = await renderHtmlReport({
+      ...result,
+      urlResults: [
+        {
+          ...page,
+          findings: [
+            ...page.findings.map((finding) => ({ ...finding, wcag: [nonText] })),
+            { ...page.findings[0], help: "Raise the contrast", id: "color-contrast", wcag: [contrast] },
+          ],
+          viewport: "mobile",
+        },
+        failed,
+      ],
+    });
+
+    expect(html).toContain("By WCAG success criterion");
+    expect(html.indexOf("1.1.1 Non-text Content")).toBeLessThan(html.indexOf("1.4.3 Contrast (Minimum)"));
+    expect(html).toContain("<code>color-contrast</code> Raise the contrast:");
+    expect(html).toContain("(mobile), 1 elements");
+    expect(html).toContain("1.4.3 Contrast (Minimum) (AA)</sl-badge>");
+    expect(await renderHtmlReport(result)).not.toContain("By WCAG success criterion");
+  });
+
+  it("labels each page with its emulation variant", async () => {
+    const html = await renderHtmlReport({
+      summary: { ...result.summary, emulations: { dark: { pagesScanned: 1, totalFindings: 0 } } },
+      urlResults: [{ emulation: "dark", findings: [], url: "https://example.com/" }],
+    });
+
+    expect(html).toContain("<dt>Findings with dark</dt>");
+    expect(html).toContain('<sl-badge variant="neutral" class="page__variant">dark</sl-badge>');
+  });
+
+  it("labels each page with its browser engine", async () => {
+    const html = await renderHtmlReport({
+      summary: { ...result.summary, browsers: { webkit: { pagesScanned: 1, totalFindings: 0 } } },
+      urlResults: [{ browser: "webkit", findings: [], url: "https://example.com/" }],
+    });
+
+    expect(html).toContain("<dt>Findings in webkit</dt>");
+    expect(html).toContain('<sl-badge variant="neutral" class="page__variant">webkit</sl-badge>');
+  });
+
+  it("shows embedded screenshots and links screenshot files relative to the report", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "reporter-html-"));
+    const screenshots: ScanResult = {
+      ...result,
+      urlResults: [
+        {
+          url: "https://example.com/",
+          findings: [
+            {
+              id: "image-alt",
+              impact: "critical",
+              tags: ["wcag2a"],
+              description: "Images must have alternate text",
+              help: "Add alternate text",
+              helpUrl: "https://dequeuniversity.com/rules/axe/image-alt",
+              nodes: [{ html: "<img>", screenshot: path.join(directory, "shots", "logo 1.png"), target: ["img"] }],
+            },
+          ],
+          screenshot: "data:image/png;base64,cGFnZQ==",
+        },
+      ],
+    };
+
+    const html = await readFile(await generateHtmlReport(screenshots, directory), "utf8");
+
+    expect(html).toContain('<sl-details class="page__screenshot" summary="Full-page screenshot">');
+    expect(html).toContain('src="data:image/png;base64,cGFnZQ&#x3D;&#x3D;"');
+    expect(html).toContain('src="shots/logo%201.png" alt="Highlighted element img"');
+    await expect(renderHtmlReport(screenshots)).resolves.toContain(
+      `src="${pathToFileURL(path.join(directory, "shots", "logo 1.png")).href}"`,
+    );
   });
 
   it("writes a report from a normalized ScanResult and returns its absolute path", async () => {
@@ -51,3 +235,114 @@ describe("generateHtmlReport", () => {
     expect(html).toContain("Navigation failed");
   });
 });
+
+describe("generateConformanceReport", () => {
+  const report: ConformanceReport = {
+    createdAt: "2026-05-04T10:00:00.000Z",
+    criteria: [
+      {
+        failedRules: [],
+        id: "1.1.1",
+        level: "A",
+        pagesFailed: 0,
+        passedRules: ["image-alt"],
+        principle: "Perceivable",
+        remarks: "Passed image-alt.",
+        reviewRules: [],
+        status: "Supports",
+        title: "Non-text Content",
+        version: "2.0",
+      },
+      {
+        failedRules: ["color-contrast"],
+        id: "1.4.3",
+        level: "AA",
+        pagesFailed: 2,
+        passedRules: [],
+        principle: "Perceivable",
+        remarks: "Failed color-contrast on 2 of 3 pages <main>.",
+        reviewRules: [],
+        status: "Does Not Support",
+        title: "Contrast (Minimum)",
+        version: "2.0",
+      },
+    ],
+    pagesEvaluated: 3,
+    title: "Storefront ACR",
+    wcagVersion: "2.2",
+  };
+
+  it("renders one table per level with editable, escaped remarks", async () => {
+    const html = await renderConformanceReport(report);
+
+    expect(html).toContain("<title>Storefront ACR</title>");
+    expect(html).toContain("2026-05-04");
+    expect(html).toContain("Table 1: Success Criteria, Level A");
+    expect(html).toContain("Table 2: Success Criteria, Level AA");
+    expect(html).toContain("1.4.3 Contrast (Minimum) (Level AA)");
+    expect(html).toContain('data-status="Does Not Support"');
+    expect(html).toContain(
+      '<td class="conformance__remarks" contenteditable="true">Failed color-contrast on 2 of 3 pages &lt;main&gt;.</td>',
+    );
+  });
+
+  it("writes the report and returns its absolute path", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "reporter-html-"));
+
+    const generatedPath = await generateConformanceReport(report, directory);
+
+    expect(generatedPath).toBe(path.resolve(directory, "conformance-report.html"));
+    await expect(readFile(generatedPath, "utf8")).resolves.toContain("1.1.1 Non-text Content (Level A)");
+  });
+});
+
+describe("generateDiffReport", () => {
+  const diff: ScanDiff = {
+    summary: {
+      newFindings: 1,
+      fixedFindings: 0,
+      unchangedFindings: 2,
+      pagesAdded: 0,
+      pagesRemoved: 1,
+      pagesNewlyErroring: 1,
+    },
+    newFindings: [
+      {
+        help: "Add alternate text <img>",
+        helpUrl: "https://dequeuniversity.com/rules/axe/image-alt",
+        impact: "critical",
+        node: { html: "<img>", target: ["main", "img"] },
+        ruleId: "image-alt",
+        url: "https://example.com/",
+        viewport: "mobile",
+      },
+    ],
+    fixedFindings: [],
+    unchangedFindings: [],
+    pagesAdded: [],
+    pagesRemoved: [{ url: "https://example.com/old" }],
+    pagesNewlyErroring: [{ error: "Navigation failed", url: "https://example.com/about" }],
+  };
+
+  it("renders new and fixed findings and the pages that changed", async () => {
+    const html = await renderDiffReport(diff);
+
+    expect(html).toContain("1 new, 0 fixed and 2 unchanged findings.");
+    expect(html).toContain("https://example.com/</a> (mobile)");
+    expect(html).toContain("<code>main &gt;&gt; img</code>");
+    expect(html).toContain("Add alternate text &lt;img&gt;");
+    expect(html).toContain('<p class="diff__empty">None.</p>');
+    expect(html).toContain("Pages removed");
+    expect(html).not.toContain("Pages added");
+    expect(html).toContain("Error: Navigation failed");
+  });
+
+  it("writes the report and returns its absolute path", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "reporter-html-"));
+
+    const generatedPath = await generateDiffReport(diff, directory);
+
+    expect(generatedPath).toBe(path.resolve(directory, "diff-report.html"));
+    await expect(readFile(generatedPath, "utf8")).resolves.toContain("Accessibility Scan Comparison");
+  });
+});
@@ -1,19 +1,36 @@
 import Handlebars from "handlebars";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
-import { fileURLToPath } from "node:url";
+import { fileURLToPath, pathToFileURL } from "node:url";
 
-import type { ScanResult } from "@a11y-page-checker/core";
+import type {
+  ConformanceReport,
+  ScanDiff,
+  ScanDiffFinding,
+  ScanDiffPage,
+  ScanResult,
+  WcagCriterion,
+} from "@a11y-page-checker/core";
+
+/** Findings of one success criterion, as listed in the report's criteria section. */
+interface CriterionGroup extends WcagCriterion {
+  findings: Array<{ help: string; nodeCount: number; ruleId: string; url: string; variant?: string }>;
+}
 
 const templatesDirectory = fileURLToPath(new URL("./templates", import.meta.url));
 
+export interface HtmlReportOptions {
+  /** Directory the report is written to; screenshot files are linked relative to it */
+  baseDirectory?: string;
+}
+
 /** Compile and write a static HTML report for a normalized scan result. */
 export async function generateHtmlReport(
   result: ScanResult,
   outputPath: string,
 ): Promise<string> {
-  const html = await renderHtmlReport(result);
   const reportPath = path.resolve(outputPath, "accessibility-report.html");
+  const html = await renderHtmlReport(result, { baseDirectory: path.dirname(reportPath) });
 
   await mkdir(path.dirname(reportPath), { recursive: true });
   await writeFile(reportPath, html, "utf8");
@@ -22,26 +39,147 @@ export async function generateHtmlReport(
 }
 
 /** Render a deterministic HTML report without writing to the filesystem. */
-export async function renderHtmlReport(result: ScanResult): Promise<string> {
-  const [main, summary, results, styles] = await Promise.all([
+export async function renderHtmlReport(result: ScanResult, options: HtmlReportOptions = {}): Promise<string> {
+  const [main, summary, criteria, results, finding, styles] = await Promise.all([
     readTemplate("main.hbs"),
     readTemplate("partials/summary.hbs"),
+    readTemplate("partials/criteria.hbs"),
     readTemplate("partials/results.hbs"),
+    readTemplate("partials/finding.hbs"),
     readTemplate("partials/styles.hbs"),
   ]);
   const handlebars = Handlebars.create();
 
   handlebars.registerPartial("summary", summary);
+  handlebars.registerPartial("criteria", criteria);
   handlebars.registerPartial("results", results);
+  handlebars.registerPartial("finding", finding);
   handlebars.registerPartial("styles", styles);
+  handlebars.registerHelper("screenshotSource", (reference: string) => toScreenshotSource(reference, options));
 
   const html = handlebars.compile(main)({
     ...result,
-    pagesWithFindings: result.urlResults.filter(({ findings }) => findings.length > 0).length,
+    criteria: groupByCriterion(result),
+    hasNeedsReview: result.urlResults.some(({ incomplete }) => incomplete !== undefined),
+    pagesWithFindings:
+      result.summary.pagesWithFindings ?? result.urlResults.filter(({ findings }) => findings.length > 0).length,
+    totalNeedsReview: result.urlResults.reduce((total, { incomplete = [] }) => total + incomplete.length, 0),
   });
   return html;
 }
 
+/** Compile and write a conformance report with editable remarks as `conformance-report.html`. */
+export async function generateConformanceReport(report: ConformanceReport, outputPath: string): Promise<string> {
+  const reportPath = path.resolve(outputPath, "conformance-report.html");
+  const html = await renderConformanceReport(report);
+
+  await mkdir(path.dirname(reportPath), { recursive: true });
+  await writeFile(reportPath, html, "utf8");
+
+  return reportPath;
+}
+
+/** Render a conformance report as one table of criteria per level, like the VPAT WCAG section. */
+export async function renderConformanceReport(report: ConformanceReport): Promise<string> {
+  const [conformance, styles] = await Promise.all([
+    readTemplate("conformance.hbs"),
+    readTemplate("partials/styles.hbs"),
+  ]);
+  const handlebars = Handlebars.create();
+  const levels = [...new Set(report.criteria.map(({ level }) => level))];
+
+  handlebars.registerPartial("styles", styles);
+
+  return handlebars.compile(conformance)({
+    ...report,
+    date: report.createdAt.slice(0, 10),
+    tables: levels.map((level, index) => ({
+      criteria: report.criteria.filter((criterion) => criterion.level === level),
+      level,
+      number: index + 1,
+    })),
+  });
+}
+
+/** Compile and write a comparison of two scans as `diff-report.html`. */
+export async function generateDiffReport(diff: ScanDiff, outputPath: string): Promise<string> {
+  const reportPath = path.resolve(outputPath, "diff-report.html");
+  const html = await renderDiffReport(diff);
+
+  await mkdir(path.dirname(reportPath), { recursive: true });
+  await writeFile(reportPath, html, "utf8");
+
+  return reportPath;
+}
+
+/** Render a `ScanDiff` as tables of new and fixed findings followed by the pages that changed. */
+export async function renderDiffReport(diff: ScanDiff): Promise<string> {
+  const [template, styles] = await Promise.all([readTemplate("diff.hbs"), readTemplate("partials/styles.hbs")]);
+  const handlebars = Handlebars.create();
+
+  handlebars.registerPartial("styles", styles);
+
+  return handlebars.compile(template)({
+    ...diff,
+    findingSections: [
+      { findings: diff.newFindings.map(toDiffRow), status: "new", title: "New findings" },
+      { findings: diff.fixedFindings.map(toDiffRow), status: "fixed", title: "Fixed findings" },
+    ],
+    pageSections: [
+      { pages: diff.pagesAdded.map(toDiffPageRow), status: "added", title: "Pages added" },
+      { pages: diff.pagesRemoved.map(toDiffPageRow), status: "removed", title: "Pages removed" },
+      { pages: diff.pagesNewlyErroring.map(toDiffPageRow), status: "erroring", title: "Pages newly erroring" },
+    ],
+  });
+}
+
+/** Groups violations by the success criteria of their `wcag` field, in criterion order. */
+function groupByCriterion(result: ScanResult): CriterionGroup[] {
+  const groups = new Map<string, CriterionGroup>();
+
+  for (const { findings, url, ...page } of result.urlResults) {
+    const variant = toVariant(page);
+
+    for (const { help, id, nodes, wcag = [] } of findings) {
+      for (const criterion of wcag) {
+        const group = groups.get(criterion.id) ?? { ...criterion, findings: [] };
+
+        group.findings.push({ help, nodeCount: nodes.length, ruleId: id, url, ...(variant ? { variant } : {}) });
+        groups.set(criterion.id, group);
+      }
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => a.id.localeCompare(b.id, "en", { numeric: true }));
+}
+
+function toDiffRow(finding: ScanDiffFinding) {
+  return { ...toDiffPageRow(finding), selector: finding.node.target.join(" >> ") };
+}
+
+function toDiffPageRow<T extends Omit<ScanDiffPage, "error">>(page: T): T & { variant?: string } {
+  const variant = toVariant(page);
+
+  return { ...page, ...(variant ? { variant } : {}) };
+}
+
+function toVariant({ browser, emulation, viewport }: Omit<ScanDiffPage, "error" | "url">): string {
+  return [browser, viewport, emulation].filter((name) => name !== undefined).join(", ");
+}
+
+/** Data URLs are embedded as they are; screenshot files are linked from the report. */
+function toScreenshotSource(reference: string, { baseDirectory }: HtmlReportOptions): string {
+  if (reference.startsWith("data:")) {
+    return reference;
+  }
+
+  if (baseDirectory === undefined) {
+    return pathToFileURL(reference).href;
+  }
+
+  return path.relative(baseDirectory, reference).split(path.sep).map(encodeURIComponent).join("/");
+}
+
 async function readTemplate(relativePath: string): Promise<string> {
   return readFile(path.join(templatesDirectory, relativePath), "utf8");
 }
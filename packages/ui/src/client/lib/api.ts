@@ -1,3 +1,4 @@
+import type { ScanDiff } from "@a11y-page-checker/core";
 import type { CreateScanRequest, ScanListResponse, SessionResponse, StoredScan } from "@shared/contracts";
 
 let sessionToken: string | undefined;
@@ -25,7 +26,9 @@ async function request<T>(url: string, init?: RequestInit): Promise<T> {
 }
 
 export const api = {
+  cancel: (id: string) => request<StoredScan>(`/api/scans/${encodeURIComponent(id)}/cancel`, { method: "POST" }),
   create: (input: CreateScanRequest) => request<StoredScan>("/api/scans", { method: "POST", body: JSON.stringify(input) }),
+  diff: (id: string, against: string) => request<ScanDiff>(`/api/scans/${encodeURIComponent(id)}/diff?against=${encodeURIComponent(against)}`),
   get: (id: string) => request<StoredScan>(`/api/scans/${encodeURIComponent(id)}`),
   list: (status?: string) => request<ScanListResponse>(`/api/scans?page=1&pageSize=20${status ? `&status=${status}` : ""}`),
   remove: (id: string) => request<void>(`/api/scans/${encodeURIComponent(id)}`, { method: "DELETE" }),
@@ -23,14 +23,17 @@ export default function NewScanPage() {
   const [maxDepth, setMaxDepth] = useState(1);
   const [maxPages, setMaxPages] = useState(25);
   const [maxConcurrency, setMaxConcurrency] = useState(2);
+  const [screenshots, setScreenshots] = useState(false);
+  const [needsReview, setNeedsReview] = useState(true);
+  const [passes, setPasses] = useState(true);
   const [pending, setPending] = useState<CreateScanRequest>();
   const [error, setError] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
   const buildInput = (confirmed = false): CreateScanRequest => kind === "markdown"
     ? { kind, content, fileName, privateNetworkConfirmed: confirmed }
-    : kind === "crawl" ? { kind, url, maxDepth, maxPages, maxConcurrency, privateNetworkConfirmed: confirmed }
-    : { kind, url, maxConcurrency, privateNetworkConfirmed: confirmed };
+    : kind === "crawl" ? { kind, url, maxDepth, maxPages, maxConcurrency, screenshots, needsReview, passes, privateNetworkConfirmed: confirmed }
+    : { kind, url, maxConcurrency, screenshots, needsReview, passes, privateNetworkConfirmed: confirmed };
 
   async function submit(input: CreateScanRequest) {
     setSubmitting(true); setError("");
@@ -60,6 +63,9 @@ export default function NewScanPage() {
           <TabsContent value="sitemap" className="space-y-5 pt-4"><Field id="sitemap-url" label="URL do sitemap"><Input id="sitemap-url" type="url" required placeholder="https://example.com/sitemap.xml" value={url} onChange={(e) => setUrl(e.target.value)} /></Field><NumberField id="sitemap-concurrency" label="Concorrência" value={maxConcurrency} min={1} max={8} onChange={setMaxConcurrency} /></TabsContent>
           <TabsContent value="markdown" className="space-y-5 pt-4"><Field id="plan-file" label="Importar plano"><Input id="plan-file" type="file" accept=".md,text/markdown" onChange={(e) => void loadFile(e.target.files?.[0])} /></Field><Field id="plan-content" label="Conteúdo Markdown"><Textarea id="plan-content" required rows={12} value={content} onChange={(e) => setContent(e.target.value)} placeholder="- [ ] Home: https://example.com" /></Field></TabsContent>
         </Tabs>
+        {kind !== "markdown" && <div className="flex items-center gap-2"><input id="screenshots" type="checkbox" className="size-4 accent-primary" checked={screenshots} onChange={(e) => setScreenshots(e.target.checked)} /><Label htmlFor="screenshots">Capturar screenshots da página e dos elementos com problemas</Label></div>}
+        {kind !== "markdown" && <div className="flex items-center gap-2"><input id="needs-review" type="checkbox" className="size-4 accent-primary" checked={needsReview} onChange={(e) => setNeedsReview(e.target.checked)} /><Label htmlFor="needs-review">Registar itens que precisam de revisão manual</Label></div>}
+        {kind !== "markdown" && <div className="flex items-center gap-2"><input id="passes" type="checkbox" className="size-4 accent-primary" checked={passes} onChange={(e) => setPasses(e.target.checked)} /><Label htmlFor="passes">Registar regras aprovadas, necessárias para avaliar o relatório de conformidade</Label></div>}
         <div className="flex items-center justify-between gap-4 border-t pt-5"><div className="flex items-center gap-2 text-sm text-muted-foreground"><ShieldCheck />Execução apenas nesta máquina</div><Button type="submit" disabled={submitting}>{submitting ? "A criar…" : "Iniciar scan"}</Button></div>
       </form>
     </CardContent></Card>
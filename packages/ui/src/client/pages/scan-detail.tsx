@@ -1,4 +1,4 @@
-import { Download, ExternalLink, Filter } from "lucide-react";
+import { Ban, Download, ExternalLink, Filter } from "lucide-react";
 import { useDeferredValue, useEffect, useMemo, useState } from "react";
 import { Link, useParams } from "react-router-dom";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -10,6 +10,7 @@ import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { api } from "@/lib/api";
+import type { ScanDiff, ScanDiffFinding } from "@a11y-page-checker/core";
 import type { StoredScan } from "@shared/contracts";
 
 export default function ScanDetailPage() {
@@ -17,7 +18,16 @@ export default function ScanDetailPage() {
   const [scan, setScan] = useState<StoredScan>();
   const [error, setError] = useState("");
   const [impact, setImpact] = useState("all");
+  const [kind, setKind] = useState<"findings" | "incomplete">("findings");
   const [query, setQuery] = useState("");
+  const [browser, setBrowser] = useState("all");
+  const [viewport, setViewport] = useState("all");
+  const [emulation, setEmulation] = useState("all");
+  const [criterion, setCriterion] = useState("all");
+  const [previous, setPrevious] = useState<StoredScan[]>([]);
+  const [against, setAgainst] = useState("");
+  const [diff, setDiff] = useState<ScanDiff>();
+  const [diffError, setDiffError] = useState("");
 
   useEffect(() => {
     let source: EventSource | undefined;
@@ -37,22 +47,48 @@ export default function ScanDetailPage() {
     return () => source?.close();
   }, [id]);
 
+  useEffect(() => {
+    if (scan?.status !== "completed") return;
+    api.list("completed").then((value) => setPrevious(value.items.filter((item) => item.id !== id && item.result))).catch(() => setPrevious([]));
+  }, [id, scan?.status]);
+
+  useEffect(() => {
+    setDiff(undefined); setDiffError("");
+    if (!against) return;
+    api.diff(id, against).then(setDiff).catch((e: Error) => setDiffError(e.message));
+  }, [id, against]);
+
   const deferredQuery = useDeferredValue(query);
-  const findings = useMemo(() => scan?.result?.urlResults.flatMap((page) => page.findings.map((finding) => ({ ...finding, url: page.url }))).filter((finding) => (impact === "all" || finding.impact === impact) && (!deferredQuery || `${finding.id} ${finding.help} ${finding.url}`.toLowerCase().includes(deferredQuery.toLowerCase()))) ?? [], [scan, impact, deferredQuery]);
+  const findings = useMemo(() => scan?.result?.urlResults.flatMap((page) => (kind === "incomplete" ? page.incomplete ?? [] : page.findings).map((finding) => ({ ...finding, url: page.url, browser: page.browser, viewport: page.viewport, emulation: page.emulation, screenshot: page.screenshot }))).filter((finding) => (impact === "all" || finding.impact === impact) && (browser === "all" || finding.browser === browser) && (viewport === "all" || finding.viewport === viewport) && (emulation === "all" || finding.emulation === emulation) && (criterion === "all" || !!finding.wcag?.some((item) => item.id === criterion)) && (!deferredQuery || `${finding.id} ${finding.help} ${finding.url}`.toLowerCase().includes(deferredQuery.toLowerCase()))) ?? [], [scan, kind, impact, browser, viewport, emulation, criterion, deferredQuery]);
+  const browsers = Object.entries(scan?.result?.summary.browsers ?? {});
+  const viewports = Object.entries(scan?.result?.summary.viewports ?? {});
+  const emulations = Object.entries(scan?.result?.summary.emulations ?? {});
+  const criteria = [...new Map(scan?.result?.urlResults.flatMap((page) => [...page.findings, ...(page.incomplete ?? [])]).flatMap((finding) => finding.wcag ?? []).map((item) => [item.id, item])).values()].sort((a, b) => a.id.localeCompare(b.id, "en", { numeric: true }));
+  const evaluatesConformance = scan?.result?.urlResults.some((page) => page.passes !== undefined) ?? false;
+  const reviewCount = scan?.result?.urlResults.some((page) => page.incomplete) ? scan.result.urlResults.reduce((total, page) => total + (page.incomplete?.length ?? 0), 0) : undefined;
+
+  const cancel = () => api.cancel(id).then(setScan).catch((e: Error) => setError(e.message));
 
   if (!scan && !error) return <div className="space-y-4"><Skeleton className="h-9 w-64" /><Skeleton className="h-40" /></div>;
   if (!scan) return <Alert variant="destructive"><AlertTitle>Não foi possível abrir o scan</AlertTitle><AlertDescription>{error}</AlertDescription></Alert>;
   const percentage = scan.status === "completed" ? 100 : scan.status === "running" ? 40 : 0;
 
   return <div className="space-y-6">
-    <div className="flex flex-wrap items-start justify-between gap-4"><div className="space-y-2"><Badge variant={scan.status === "failed" ? "destructive" : scan.status === "completed" ? "secondary" : "outline"}>{scan.status}</Badge><h1 className="max-w-4xl break-words text-3xl font-semibold tracking-tight">{scan.input.kind === "markdown" ? scan.input.fileName : scan.input.url}</h1></div><div className="flex gap-2">{scan.result && <><Button asChild variant="outline"><a href={`/api/scans/${id}/download?format=json`}><Download />JSON</a></Button><Button asChild variant="outline"><a href={`/api/scans/${id}/download?format=html`}><Download />HTML</a></Button></>}<Button asChild><Link to="/">Novo scan</Link></Button></div></div>
+    <div className="flex flex-wrap items-start justify-between gap-4"><div className="space-y-2"><Badge variant={scan.status === "failed" ? "destructive" : scan.status === "completed" ? "secondary" : "outline"}>{scan.status}</Badge>{scan.result?.cancelled && <Badge variant="outline">cancelado</Badge>}<h1 className="max-w-4xl break-words text-3xl font-semibold tracking-tight">{scan.input.kind === "markdown" ? scan.input.fileName : scan.input.url}</h1></div><div className="flex gap-2">{(scan.status === "queued" || scan.status === "running") && <Button variant="outline" onClick={cancel}><Ban />Cancelar scan</Button>}{scan.result && <><Button asChild variant="outline"><a href={`/api/scans/${id}/download?format=json`}><Download />JSON</a></Button><Button asChild variant="outline"><a href={`/api/scans/${id}/download?format=html`}><Download />HTML</a></Button><Button asChild variant="outline"><a href={`/api/scans/${id}/download?format=conformance`}><Download />Conformidade</a></Button></>}<Button asChild><Link to="/">Novo scan</Link></Button></div></div>
     {error && <Alert><AlertTitle>Ligação a restabelecer</AlertTitle><AlertDescription>{error}</AlertDescription></Alert>}
+    {scan.result && !evaluatesConformance && <Alert><AlertTitle>Relatório de conformidade limitado</AlertTitle><AlertDescription>Este scan não registou regras aprovadas, por isso o relatório de conformidade marca como "Not Evaluated" quase todos os critérios sem violações. Cria um novo scan com as regras aprovadas registadas para os avaliar.</AlertDescription></Alert>}
     {scan.error && <Alert variant="destructive"><AlertTitle>O scan falhou</AlertTitle><AlertDescription>{scan.error}</AlertDescription></Alert>}
-    <Card><CardHeader><CardTitle>Progresso</CardTitle><CardDescription aria-live="polite">{scan.progress.currentUrl ?? statusText(scan.status)}</CardDescription></CardHeader><CardContent><Progress value={percentage} aria-label="Progresso do scan" /><dl className="mt-5 grid grid-cols-3 gap-4"><Metric label="Páginas" value={scan.result?.summary.pagesScanned ?? scan.progress.completedPages} /><Metric label="Findings" value={scan.result?.summary.totalFindings ?? scan.progress.findings} /><Metric label="Duração" value={scan.result ? `${(scan.result.summary.duration / 1000).toFixed(1)}s` : "—"} /></dl></CardContent></Card>
-    {scan.result && <section aria-labelledby="findings-title" className="space-y-4"><div><h2 id="findings-title" className="text-2xl font-semibold">Findings</h2><p className="text-muted-foreground">Filtra e inspeciona os problemas detetados.</p></div><div className="flex flex-col gap-3 rounded-lg border bg-card p-4 sm:flex-row"><div className="relative flex-1"><Filter className="absolute left-3 top-2.5 text-muted-foreground" /><Input className="pl-9" aria-label="Pesquisar findings" placeholder="Regra, ajuda ou URL" value={query} onChange={(e) => setQuery(e.target.value)} /></div><Select value={impact} onValueChange={setImpact}><SelectTrigger className="sm:w-48" aria-label="Filtrar por impacto"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="all">Todos os impactos</SelectItem><SelectItem value="critical">Crítico</SelectItem><SelectItem value="serious">Sério</SelectItem><SelectItem value="moderate">Moderado</SelectItem><SelectItem value="minor">Menor</SelectItem></SelectContent></Select></div>
-      {findings.length === 0 ? <Card><CardContent className="py-12 text-center">Nenhum finding corresponde aos filtros.</CardContent></Card> : <div className="space-y-3">{findings.slice(0, 200).map((finding, index) => <Card className="finding-card" key={`${finding.url}-${finding.id}-${index}`}><CardHeader><div className="flex items-center gap-2"><Badge variant={finding.impact === "critical" || finding.impact === "serious" ? "destructive" : "outline"}>{finding.impact}</Badge><CardTitle className="text-base">{finding.help}</CardTitle></div><CardDescription className="break-all">{finding.url}</CardDescription></CardHeader><CardContent className="space-y-4"><p>{finding.description}</p>{finding.nodes.map((node, i) => <div key={i} className="space-y-2 rounded-md bg-muted p-3"><code className="block break-all text-xs">{node.target.join(" → ")}</code><pre className="overflow-x-auto whitespace-pre-wrap text-xs">{node.html}</pre>{node.failureSummary && <p className="text-sm text-muted-foreground">{node.failureSummary}</p>}</div>)}<Button asChild size="sm" variant="outline"><a href={finding.helpUrl} target="_blank" rel="noreferrer">Orientação da regra<ExternalLink /></a></Button></CardContent></Card>)}</div>}
+    <Card><CardHeader><CardTitle>Progresso</CardTitle><CardDescription aria-live="polite">{scan.progress.currentUrl ?? statusText(scan.status)}</CardDescription></CardHeader><CardContent><Progress value={percentage} aria-label="Progresso do scan" /><dl className="mt-5 grid grid-cols-3 gap-4"><Metric label="Páginas" value={scan.result?.summary.pagesScanned ?? scan.progress.completedPages} /><Metric label="Findings" value={scan.result?.summary.totalFindings ?? scan.progress.findings} /><Metric label="Duração" value={scan.result ? `${(scan.result.summary.duration / 1000).toFixed(1)}s` : "—"} />{scan.result?.summary.totalNodes !== undefined && <Metric label="Elementos afetados" value={scan.result.summary.totalNodes} />}{scan.result?.summary.pagesWithErrors !== undefined && <Metric label="Páginas com erros" value={scan.result.summary.pagesWithErrors} />}{reviewCount !== undefined && <Metric label="A rever" value={reviewCount} />}{scan.result?.summary.newFindings !== undefined && <><Metric label="Novos" value={scan.result.summary.newFindings} /><Metric label="Conhecidos" value={scan.result.summary.knownFindings ?? 0} /></>}{browsers.map(([name, summary]) => <Metric key={`browser-${name}`} label={`Findings no ${name}`} value={summary.totalFindings} />)}{viewports.map(([name, summary]) => <Metric key={name} label={`Findings em ${name}`} value={summary.totalFindings} />)}{emulations.map(([name, summary]) => <Metric key={`emulation-${name}`} label={`Findings com ${name}`} value={summary.totalFindings} />)}</dl></CardContent></Card>
+    {scan.result && <section aria-labelledby="findings-title" className="space-y-4"><div><h2 id="findings-title" className="text-2xl font-semibold">Findings</h2><p className="text-muted-foreground">Filtra e inspeciona os problemas detetados.</p></div><div className="flex flex-col gap-3 rounded-lg border bg-card p-4 sm:flex-row"><div className="relative flex-1"><Filter className="absolute left-3 top-2.5 text-muted-foreground" /><Input className="pl-9" aria-label="Pesquisar findings" placeholder="Regra, ajuda ou URL" value={query} onChange={(e) => setQuery(e.target.value)} /></div>{reviewCount !== undefined && <Select value={kind} onValueChange={(value) => setKind(value as typeof kind)}><SelectTrigger className="sm:w-48" aria-label="Filtrar por tipo de resultado"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="findings">Violações</SelectItem><SelectItem value="incomplete">A rever manualmente</SelectItem></SelectContent></Select>}{browsers.length > 0 && <Select value={browser} onValueChange={setBrowser}><SelectTrigger className="sm:w-48" aria-label="Filtrar por navegador"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="all">Todos os navegadores</SelectItem>{browsers.map(([name]) => <SelectItem key={name} value={name}>{name}</SelectItem>)}</SelectContent></Select>}{viewports.length > 0 && <Select value={viewport} onValueChange={setViewport}><SelectTrigger className="sm:w-48" aria-label="Filtrar por viewport"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="all">Todos os viewports</SelectItem>{viewports.map(([name]) => <SelectItem key={name} value={name}>{name}</SelectItem>)}</SelectContent></Select>}{emulations.length > 0 && <Select value={emulation} onValueChange={setEmulation}><SelectTrigger className="sm:w-48" aria-label="Filtrar por emulação"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="all">Todas as emulações</SelectItem>{emulations.map(([name]) => <SelectItem key={name} value={name}>{name}</SelectItem>)}</SelectContent></Select>}{criteria.length > 0 && <Select value={criterion} onValueChange={setCriterion}><SelectTrigger className="sm:w-48" aria-label="Filtrar por critério WCAG"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="all">Todos os critérios WCAG</SelectItem>{criteria.map((item) => <SelectItem key={item.id} value={item.id}>{item.id} {item.title} ({item.level})</SelectItem>)}</SelectContent></Select>}<Select value={impact} onValueChange={setImpact}><SelectTrigger className="sm:w-48" aria-label="Filtrar por impacto"><SelectValue /></SelectTrigger><SelectContent><SelectItem value="all">Todos os impactos</SelectItem><SelectItem value="critical">Crítico</SelectItem><SelectItem value="serious">Sério</SelectItem><SelectItem value="moderate">Moderado</SelectItem><SelectItem value="minor">Menor</SelectItem></SelectContent></Select></div>
+      {findings.length === 0 ? <Card><CardContent className="py-12 text-center">Nenhum finding corresponde aos filtros.</CardContent></Card> : <div className="space-y-3">{findings.slice(0, 200).map((finding, index) => <Card className="finding-card" key={`${finding.url}-${finding.browser}-${finding.viewport}-${finding.emulation}-${finding.id}-${index}`}><CardHeader><div className="flex items-center gap-2"><Badge variant={finding.impact === "critical" || finding.impact === "serious" ? "destructive" : "outline"}>{finding.impact}</Badge><CardTitle className="text-base">{finding.help}</CardTitle>{finding.suppressed && <Badge variant="secondary">conhecido</Badge>}{finding.source && <Badge variant="outline" title="Regra de plugin">{finding.source}</Badge>}{finding.wcag?.map((item) => <Badge key={item.id} variant="outline" title={`${item.title}, nível ${item.level}`}>WCAG {item.id}</Badge>)}{finding.browser && <Badge variant="outline">{finding.browser}</Badge>}{finding.viewport && <Badge variant="outline">{finding.viewport}</Badge>}{finding.emulation && <Badge variant="outline">{finding.emulation}</Badge>}</div><CardDescription className="break-all">{finding.url}</CardDescription></CardHeader><CardContent className="space-y-4"><p>{finding.description}</p>{finding.nodes.map((node, i) => <div key={i} className="space-y-2 rounded-md bg-muted p-3"><code className="block break-all text-xs">{node.target.join(" → ")}</code><pre className="overflow-x-auto whitespace-pre-wrap text-xs">{node.html}</pre>{node.failureSummary && <p className="text-sm text-muted-foreground">{node.failureSummary}</p>}{isEmbedded(node.screenshot) && <img className="max-w-full rounded border" src={node.screenshot} alt={`Elemento destacado ${node.target.join(" → ")}`} loading="lazy" />}</div>)}{isEmbedded(finding.screenshot) && <details><summary className="cursor-pointer text-sm font-medium">Captura da página completa</summary><img className="mt-2 max-w-full rounded border" src={finding.screenshot} alt={`Página completa ${finding.url}`} loading="lazy" /></details>}<Button asChild size="sm" variant="outline"><a href={finding.helpUrl} target="_blank" rel="noreferrer">Orientação da regra<ExternalLink /></a></Button></CardContent></Card>)}</div>}
+    </section>}
+    {previous.length > 0 && <section aria-labelledby="compare-title" className="space-y-4"><div><h2 id="compare-title" className="text-2xl font-semibold">Comparação</h2><p className="text-muted-foreground">Compara este scan com outro scan concluído para ver o que mudou.</p></div><div className="flex flex-col gap-3 rounded-lg border bg-card p-4 sm:flex-row"><Select value={against} onValueChange={setAgainst}><SelectTrigger className="sm:w-96" aria-label="Scan anterior a comparar"><SelectValue placeholder="Escolhe um scan anterior" /></SelectTrigger><SelectContent>{previous.map((item) => <SelectItem key={item.id} value={item.id}>{item.input.kind === "markdown" ? item.input.fileName : item.input.url} · {new Intl.DateTimeFormat("pt-PT", { dateStyle: "medium", timeStyle: "short" }).format(new Date(item.createdAt))}</SelectItem>)}</SelectContent></Select>{diff && <Button asChild variant="outline"><a href={`/api/scans/${id}/diff?against=${against}&format=html`}><Download />Comparação HTML</a></Button>}</div>
+      {diffError && <Alert variant="destructive"><AlertTitle>Não foi possível comparar os scans</AlertTitle><AlertDescription>{diffError}</AlertDescription></Alert>}
+      {diff && <Card><CardContent className="space-y-6 pt-6"><dl className="grid grid-cols-3 gap-4"><Metric label="Novos" value={diff.summary.newFindings} /><Metric label="Corrigidos" value={diff.summary.fixedFindings} /><Metric label="Inalterados" value={diff.summary.unchangedFindings} /><Metric label="Páginas adicionadas" value={diff.summary.pagesAdded} /><Metric label="Páginas removidas" value={diff.summary.pagesRemoved} /><Metric label="Páginas com novos erros" value={diff.summary.pagesNewlyErroring} /></dl><DiffFindings title="Novos findings" findings={diff.newFindings} /><DiffFindings title="Findings corrigidos" findings={diff.fixedFindings} />{diff.pagesNewlyErroring.length > 0 && <div className="space-y-2"><h3 className="font-semibold">Páginas com novos erros</h3><ul className="space-y-1 text-sm">{diff.pagesNewlyErroring.map((page, index) => <li key={`${page.url}-${index}`} className="break-all">{page.url}{[page.browser, page.viewport, page.emulation].filter(Boolean).map((name) => ` · ${name}`).join("")}: {page.error}</li>)}</ul></div>}</CardContent></Card>}
     </section>}
   </div>;
 }
+function DiffFindings({ findings, title }: { findings: ScanDiffFinding[]; title: string }) { return <div className="space-y-2"><h3 className="font-semibold">{title}</h3>{findings.length === 0 ? <p className="text-sm text-muted-foreground">Nenhum.</p> : <ul className="space-y-2">{findings.slice(0, 200).map((finding, index) => <li key={`${finding.url}-${finding.ruleId}-${index}`} className="rounded-md bg-muted p-3 text-sm"><div className="flex flex-wrap items-center gap-2"><Badge variant={finding.impact === "critical" || finding.impact === "serious" ? "destructive" : "outline"}>{finding.impact}</Badge><span className="font-medium">{finding.help}</span>{finding.browser && <Badge variant="outline">{finding.browser}</Badge>}{finding.viewport && <Badge variant="outline">{finding.viewport}</Badge>}{finding.emulation && <Badge variant="outline">{finding.emulation}</Badge>}</div><p className="mt-1 break-all text-muted-foreground">{finding.url}</p><code className="block break-all text-xs">{finding.node.target.join(" → ")}</code></li>)}</ul>}</div>; }
 function Metric({ label, value }: { label: string; value: string | number }) { return <div><dt className="text-sm text-muted-foreground">{label}</dt><dd className="mt-1 font-mono text-xl font-semibold">{value}</dd></div>; }
+function isEmbedded(screenshot?: string): screenshot is string { return screenshot?.startsWith("data:") ?? false; }
 function statusText(status: StoredScan["status"]) { return { queued: "À espera na fila", running: "A executar", completed: "Scan concluído", failed: "Scan interrompido" }[status]; }
@@ -33,3 +33,32 @@ describe("local API security", () => {
     await app.close();
   });
 });
+
+describe("scan comparison", () => {
+  it("diffs two stored results as JSON or as an HTML report", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-api-"));
+    directories.push(directory);
+    const store = new ScanStore(path.join(directory, "scans.sqlite"));
+    const input: CreateScanRequest = { kind: "crawl", url: "https://example.com" };
+    const before = store.create(randomUUID(), input, toScanPlan(input));
+    const after = store.create(randomUUID(), input, toScanPlan(input));
+    const queued = store.create(randomUUID(), input, toScanPlan(input));
+    const finding = { description: "", help: "Add alternate text", helpUrl: "https://dequeuniversity.com/rules/axe/image-alt", id: "image-alt", impact: "critical" as const, nodes: [{ html: "<img>", target: ["img"] }], tags: [] };
+    store.complete(before.id, { summary: { duration: 1, pagesScanned: 1, totalFindings: 1 }, urlResults: [{ url: "https://example.com/", findings: [finding] }] });
+    store.complete(after.id, { summary: { duration: 1, pagesScanned: 1, totalFindings: 0 }, urlResults: [{ url: "https://example.com/", findings: [] }] });
+    const app = await createApp({ store, queue: { start() {} } as unknown as ScanQueue, serveClient: false });
+    const headers = { host: "127.0.0.1:4174" };
+
+    const json = await app.inject({ method: "GET", url: `/api/scans/${after.id}/diff?against=${before.id}`, headers });
+    expect(json.statusCode).toBe(200);
+    expect(json.json()).toMatchObject({ summary: { fixedFindings: 1, newFindings: 0 }, fixedFindings: [{ ruleId: "image-alt" }] });
+
+    const html = await app.inject({ method: "GET", url: `/api/scans/${after.id}/diff?against=${before.id}&format=html`, headers });
+    expect(html.headers["content-disposition"]).toBe(`attachment; filename="diff-${before.id}-${after.id}.html"`);
+    expect(html.body).toContain("0 new, 1 fixed and 0 unchanged findings.");
+
+    expect((await app.inject({ method: "GET", url: `/api/scans/${after.id}/diff?against=${queued.id}`, headers })).statusCode).toBe(409);
+    expect((await app.inject({ method: "GET", url: `/api/scans/${after.id}/diff?against=${randomUUID()}`, headers })).statusCode).toBe(404);
+    await app.close();
+  });
+});
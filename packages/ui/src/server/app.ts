@@ -6,7 +6,8 @@ import { fileURLToPath } from "node:url";
 
 import fastifyStatic from "@fastify/static";
 import Fastify, { type FastifyInstance } from "fastify";
-import { renderHtmlReport } from "@a11y-page-checker/reporter-html";
+import { createConformanceReport, diffScanResults } from "@a11y-page-checker/core";
+import { renderConformanceReport, renderDiffReport, renderHtmlReport } from "@a11y-page-checker/reporter-html";
 import { ZodError, z } from "zod";
 
 import type { ScanStatus } from "../shared/contracts.js";
@@ -127,7 +128,7 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
 
   app.get("/api/scans/:id/download", async (request, reply) => {
     const { id } = z.object({ id: z.string().uuid() }).parse(request.params);
-    const { format } = z.object({ format: z.enum(["json", "html"]) }).parse(request.query);
+    const { format } = z.object({ format: z.enum(["json", "html", "conformance"]) }).parse(request.query);
     const stored = store.get(id);
     if (!stored?.result) return reply.code(409).send({ error: "The scan has no completed result." });
 
@@ -138,12 +139,46 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
         .send(JSON.stringify(stored.result, null, 2));
     }
 
+    if (format === "conformance") {
+      return reply
+        .type("text/html; charset=utf-8")
+        .header("Content-Disposition", `attachment; filename="conformance-${id}.html"`)
+        .send(await renderConformanceReport(createConformanceReport(stored.result)));
+    }
+
     return reply
       .type("text/html; charset=utf-8")
       .header("Content-Disposition", `attachment; filename="scan-${id}.html"`)
       .send(await renderHtmlReport(stored.result));
   });
 
+  app.get("/api/scans/:id/diff", async (request, reply) => {
+    const { id } = z.object({ id: z.string().uuid() }).parse(request.params);
+    const { against, format } = z.object({
+      against: z.string().uuid(),
+      format: z.enum(["json", "html"]).default("json"),
+    }).strict().parse(request.query);
+    const after = store.get(id);
+    const before = store.get(against);
+    if (!after || !before) return reply.code(404).send({ error: "Scan not found." });
+    if (!after.result || !before.result) return reply.code(409).send({ error: "Both scans need a completed result." });
+
+    const diff = diffScanResults(before.result, after.result);
+    if (format === "json") return diff;
+
+    return reply
+      .type("text/html; charset=utf-8")
+      .header("Content-Disposition", `attachment; filename="diff-${against}-${id}.html"`)
+      .send(await renderDiffReport(diff));
+  });
+
+  app.post("/api/scans/:id/cancel", async (request, reply) => {
+    const { id } = z.object({ id: z.string().uuid() }).parse(request.params);
+    if (!store.get(id)) return reply.code(404).send({ error: "Scan not found." });
+    const scan = queue.cancel(id);
+    return scan ? reply.code(202).send(scan) : reply.code(409).send({ error: "Only queued or running scans can be cancelled." });
+  });
+
   app.delete("/api/scans/:id", async (request, reply) => {
     const { id } = z.object({ id: z.string().uuid() }).parse(request.params);
     const existing = store.get(id);
@@ -0,0 +1,53 @@
+import { EventEmitter } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import type { ScanOperation, ScanResult } from "@a11y-page-checker/core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ScanQueue } from "./queue.js";
+import { ScanStore } from "./store.js";
+
+const directories: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(directories.splice(0).map((directory) => rm(directory, { recursive: true, force: true })));
+});
+
+function createOperation(): ScanOperation & { resolve: (result: ScanResult) => void } {
+  const emitter = new EventEmitter();
+  let resolve!: (result: ScanResult) => void;
+  const promise = new Promise<ScanResult>((done) => (resolve = done));
+  return Object.assign(promise, {
+    cancel: vi.fn(),
+    on: emitter.on.bind(emitter),
+    once: emitter.once.bind(emitter),
+    resolve,
+  }) as unknown as ScanOperation & { resolve: (result: ScanResult) => void };
+}
+
+describe("ScanQueue", () => {
+  it("cancels queued scans before they start and stops running scans", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "a11y-queue-"));
+    directories.push(directory);
+    const store = new ScanStore(path.join(directory, "scans.sqlite"));
+    const operation = createOperation();
+    const queue = new ScanQueue(store, { runScan: () => operation });
+
+    const running = queue.enqueue({ kind: "crawl", url: "https://example.com" });
+    const queued = queue.enqueue({ kind: "crawl", url: "https://example.org" });
+    await vi.waitFor(() => expect(store.get(running.id)?.status).toBe("running"));
+
+    expect(queue.cancel(queued.id)).toMatchObject({ error: "Scan cancelled before it started.", status: "failed" });
+    expect(queue.cancel(running.id)).toMatchObject({ status: "running" });
+    expect(operation.cancel).toHaveBeenCalledOnce();
+
+    operation.resolve({ cancelled: true, summary: { duration: 1, pagesScanned: 0, totalFindings: 0 }, urlResults: [] });
+    await vi.waitFor(() => expect(store.get(running.id)?.status).toBe("completed"));
+
+    expect(store.get(running.id)?.result?.cancelled).toBe(true);
+    expect(queue.cancel(running.id)).toBeUndefined();
+    store.close();
+  });
+});
@@ -19,6 +19,7 @@ interface QueueDependencies {
 
 export class ScanQueue {
   private readonly pending: string[] = [];
+  private readonly operations = new Map<string, ScanOperation>();
   private active = false;
   private eventId = 0;
   readonly events = new EventEmitter();
@@ -40,6 +41,22 @@ export class ScanQueue {
     return stored;
   }
 
+  /** Drops a queued scan or stops a running one; running scans keep the pages completed so far. */
+  cancel(id: string): StoredScan | undefined {
+    const index = this.pending.indexOf(id);
+    if (index >= 0) {
+      this.pending.splice(index, 1);
+      this.store.updateStatus(id, "failed", "Scan cancelled before it started.");
+      this.publishStored("state", id);
+      return this.store.get(id);
+    }
+
+    const operation = this.operations.get(id);
+    if (!operation) return undefined;
+    operation.cancel();
+    return this.store.get(id);
+  }
+
   subscribe(scanId: string, listener: (event: QueueEvent) => void): () => void {
     const eventName = `scan:${scanId}`;
     this.events.on(eventName, listener);
@@ -69,6 +86,7 @@ export class ScanQueue {
     const progress: ScanProgress = { completedPages: 0, findings: 0 };
     try {
       const operation = (this.dependencies.runScan ?? scan)(stored.plan);
+      this.operations.set(id, operation);
       this.subscribeToOperation(id, operation, progress);
       const result = await operation;
       this.store.complete(id, result);
@@ -76,6 +94,8 @@ export class ScanQueue {
     } catch (error) {
       this.store.updateStatus(id, "failed", toPublicError(error));
       this.publishStored("state", id);
+    } finally {
+      this.operations.delete(id);
     }
   }
 
@@ -12,4 +12,69 @@ describe("scan request validation", () => {
     expect(targetsPrivateNetwork(input)).toBe(true);
     expect(toScanPlan(input)).toEqual({ source: { type: "crawl", seedUrl: "http://localhost:3000", maxDepth: 2, maxPages: 25 } });
   });
+
+  it("rejects uploaded plans that would serve local files", () => {
+    const input = parseCreateScanRequest({
+      kind: "markdown",
+      fileName: "plan.md",
+      content: "---\nsource:\n  type: files\n  glob: [\"/etc/**/*.html\"]\n---\n",
+    });
+    expect(() => toScanPlan(input)).toThrow("Uploaded plans cannot scan local files.");
+  });
+
+  it("rejects uploaded plans that would read local credentials", () => {
+    const input = parseCreateScanRequest({
+      kind: "markdown",
+      fileName: "plan.md",
+      content: "---\nauth:\n  headers:\n    Authorization: \"Bearer ${env:API_TOKEN}\"\n---\n- [ ] https://example.com\n",
+    });
+    expect(() => toScanPlan(input)).toThrow("Uploaded plans cannot read local credentials or environment variables.");
+  });
+
+  it("records needs-review items when requested", () => {
+    const input = parseCreateScanRequest({ kind: "crawl", url: "https://example.com", needsReview: true });
+    expect(toScanPlan(input)).toEqual({ source: { type: "crawl", seedUrl: "https://example.com" }, options: { outcomes: { incomplete: true } } });
+  });
+
+  it("records passed rules for the conformance report when requested", () => {
+    const input = parseCreateScanRequest({ kind: "sitemap", url: "https://example.com/sitemap.xml", needsReview: true, passes: true });
+    expect(toScanPlan(input)).toEqual({ source: { type: "sitemap", url: "https://example.com/sitemap.xml" }, options: { outcomes: { incomplete: true, passes: true } } });
+  });
+
+  it("embeds screenshots in the result and rejects uploaded plans that would write them to disk", () => {
+    const input = parseCreateScanRequest({ kind: "sitemap", url: "https://example.com/sitemap.xml", screenshots: true });
+    expect(toScanPlan(input)).toEqual({ source: { type: "sitemap", url: "https://example.com/sitemap.xml" }, options: { screenshots: {} } });
+
+    const upload = parseCreateScanRequest({
+      kind: "markdown",
+      fileName: "plan.md",
+      content: "---\noptions:\n  screenshots:\n    outputDir: /tmp/shots\n---\n- [ ] https://example.com\n",
+    });
+    expect(() => toScanPlan(upload)).toThrow("Uploaded plans cannot write screenshots to local directories.");
+  });
+
+  it("keeps suppressions of uploaded plans and rejects local baseline files", () => {
+    const suppressed = parseCreateScanRequest({
+      kind: "markdown",
+      fileName: "plan.md",
+      content: "---\nsuppressions:\n  - ruleId: region\n    reason: Legacy layout\n---\n- [ ] https://example.com\n",
+    });
+    expect(toScanPlan(suppressed).suppressions).toEqual([{ reason: "Legacy layout", ruleId: "region" }]);
+
+    const baseline = parseCreateScanRequest({
+      kind: "markdown",
+      fileName: "plan.md",
+      content: "---\nbaseline: baseline.json\n---\n- [ ] https://example.com\n",
+    });
+    expect(() => toScanPlan(baseline)).toThrow("Uploaded plans cannot read local baseline files.");
+  });
+
+  it("rejects uploaded plans that load local axe plugins", () => {
+    const upload = parseCreateScanRequest({
+      kind: "markdown",
+      fileName: "plan.md",
+      content: "---\noptions:\n  axe:\n    plugins:\n      - ./house-rules.mjs\n---\n- [ ] https://example.com\n",
+    });
+    expect(() => toScanPlan(upload)).toThrow("Uploaded plans cannot load local axe plugins.");
+  });
 });
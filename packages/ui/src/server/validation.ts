@@ -16,6 +16,9 @@ const viewport = z.object({
 const common = {
   maxConcurrency: z.number().int().min(1).max(8).optional(),
   viewport: viewport.optional(),
+  screenshots: z.boolean().optional(),
+  needsReview: z.boolean().optional(),
+  passes: z.boolean().optional(),
 };
 
 export const createScanSchema = z.discriminatedUnion("kind", [
@@ -47,12 +50,34 @@ export function parseCreateScanRequest(value: unknown): CreateScanRequest {
 
 export function toScanPlan(input: CreateScanRequest): ScanPlan {
   if (input.kind === "markdown") {
-    return MarkdownParser.parseText(input.content, input.fileName);
+    const plan = MarkdownParser.parseText(input.content, input.fileName);
+    if (plan.source.type === "files") {
+      throw Object.assign(new Error("Uploaded plans cannot scan local files."), { statusCode: 400 });
+    }
+    if (plan.auth) {
+      throw Object.assign(new Error("Uploaded plans cannot read local credentials or environment variables."), { statusCode: 400 });
+    }
+    if (plan.options?.screenshots?.outputDir !== undefined) {
+      throw Object.assign(new Error("Uploaded plans cannot write screenshots to local directories."), { statusCode: 400 });
+    }
+    if (plan.baseline !== undefined) {
+      throw Object.assign(new Error("Uploaded plans cannot read local baseline files."), { statusCode: 400 });
+    }
+    if (plan.options?.axe?.plugins !== undefined) {
+      throw Object.assign(new Error("Uploaded plans cannot load local axe plugins."), { statusCode: 400 });
+    }
+    return plan;
   }
 
+  const outcomes = {
+    ...(input.needsReview ? { incomplete: true } : {}),
+    ...(input.passes ? { passes: true } : {}),
+  };
   const options = {
     ...(input.maxConcurrency === undefined ? {} : { maxConcurrency: input.maxConcurrency }),
     ...(input.viewport === undefined ? {} : { viewport: input.viewport }),
+    ...(input.screenshots ? { screenshots: {} } : {}),
+    ...(Object.keys(outcomes).length === 0 ? {} : { outcomes }),
   };
 
   return {
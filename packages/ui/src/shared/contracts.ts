@@ -5,6 +5,9 @@ export type ScanStatus = "queued" | "running" | "completed" | "failed";
 interface CommonOptions {
   maxConcurrency?: number;
   viewport?: { width: number; height: number };
+  screenshots?: boolean;
+  needsReview?: boolean;
+  passes?: boolean;
   privateNetworkConfirmed?: boolean;
 }
 